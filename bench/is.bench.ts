@@ -0,0 +1,55 @@
+import { t } from "../src";
+
+// Compares is() against parse() on the same data. Timings are printed,
+// never asserted, so the numbers are only meaningful relative to each other
+// on one machine. Run with `pnpm bench`.
+
+const Order = t.object({
+  id: t.number,
+  status: t.or(t.literal("open"), t.literal("closed")),
+  customer: t.object({ name: t.string, email: t.nullable(t.string) }),
+  lines: t.array(
+    t.object({
+      sku: t.string,
+      quantity: t.number.refine((n) => n > 0, "expected positive quantity"),
+      tags: t.record(t.boolean),
+    })
+  ),
+});
+const orders = t.array(Order);
+
+function makeOrders(count: number, invalidEvery: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i,
+    status: i % invalidEvery === invalidEvery - 1 ? "pending" : "open",
+    customer: { name: `customer ${i}`, email: null },
+    lines: Array.from({ length: 5 }, (_, j) => ({
+      sku: `sku-${j}`,
+      quantity: j + 1,
+      tags: { gift: j % 2 === 0 },
+    })),
+  }));
+}
+
+function measure(name: string, runs: number, run: () => unknown) {
+  run();
+  const start = performance.now();
+  for (let i = 0; i < runs; i++) {
+    run();
+  }
+  const elapsed = (performance.now() - start) / runs;
+  console.log(`${name.padEnd(40)} ${elapsed.toFixed(3)} ms/run`);
+}
+
+it("is vs parse", () => {
+  const runs = 20;
+  const valid = makeOrders(2000, Infinity);
+  const invalid = makeOrders(2000, 10);
+  measure("is (valid)", runs, () => orders.is(valid));
+  measure("parse (valid)", runs, () => t.parse(orders, valid));
+  measure("is (every 10th invalid)", runs, () => orders.is(invalid));
+  measure("parse (every 10th invalid)", runs, () => t.parse(orders, invalid));
+  measure("parse (every 10th invalid, all errors)", runs, () =>
+    t.parse(orders, invalid, { abortEarly: false })
+  );
+});
@@ -1,9 +1,12 @@
 export type TypeStringOptions = {
   nested?: boolean;
+  // render objects, arrays, tuples, records, maps and sets as read-only
+  readonly?: boolean;
 };
 
 const defaultTypeStringOptions: Required<TypeStringOptions> = {
   nested: false,
+  readonly: false,
 };
 
 export type Sanitized<T> = {
@@ -11,27 +14,216 @@ export type Sanitized<T> = {
   value: T;
 };
 
-type TypeCheckerBase<in out T = any> = {
-  check(value: unknown): value is T;
-  sanitize(value: T): Sanitized<T>;
+export type JSONSchema = { [keyword: string]: unknown };
+
+export type JSONSchemaContext = {
+  unrepresentable(description: string): JSONSchema;
+  // names given to lazy checkers, whose schemas are collected in `defs`
+  names: Map<TypeChecker<any, any>, string>;
+  defs: { [name: string]: JSONSchema };
+};
+
+type PrimitiveName = "string" | "boolean" | "bigint";
+type CoercedName = "number" | "boolean" | "bigint" | "Date";
+
+// a constraint on numbers, with the message given for when it fails, if any;
+// `min` and `max` are exclusive unless `inclusive`
+export type NumberCheck = (
+  | { kind: "int" }
+  | { kind: "finite" }
+  | { kind: "min"; value: number; inclusive: boolean }
+  | { kind: "max"; value: number; inclusive: boolean }
+  | { kind: "multipleOf"; value: number }
+) & { message?: string };
+
+// describes a checker by its combinator and arguments, discriminated by `kind`
+export type TypeDef =
+  | { kind: "primitive"; name: "number"; checks: NumberCheck[] }
+  | { kind: "primitive"; name: PrimitiveName }
+  | { kind: "coerce"; to: CoercedName }
+  | { kind: "literal"; value: LiteralBase }
+  | { kind: "null" }
+  | { kind: "undefined" }
+  | { kind: "any" }
+  | { kind: "unknown" }
+  | { kind: "never" }
+  | { kind: "object"; shape: ObjectShape; unknownKeys: UnknownKeys }
+  | { kind: "array"; item: TypeChecker<any, any> }
+  | { kind: "tuple"; items: TypeChecker<any, any>[] }
+  | {
+      kind: "record";
+      // undefined when any string is allowed
+      key: TypeChecker<any, any> | undefined;
+      value: TypeChecker<any, any>;
+    }
+  | { kind: "map"; key: TypeChecker<any, any>; value: TypeChecker<any, any> }
+  | { kind: "set"; item: TypeChecker<any, any> }
+  | { kind: "union"; options: TypeChecker<any, any>[] }
+  | {
+      kind: "discriminatedUnion";
+      key: string;
+      options: (TypeChecker<any, any> & { shape: ObjectShape })[];
+    }
+  | { kind: "intersection"; types: TypeChecker<any, any>[] }
+  | { kind: "class"; class: abstract new (...args: any) => any }
+  | { kind: "nominal"; name: string; check: (value: unknown) => boolean }
+  // `resolve` returns the checker given to lazy(), getting it on first use
+  | { kind: "lazy"; name: string; resolve: () => TypeChecker<any, any> }
+  | {
+      kind: "refinement";
+      base: TypeChecker<any, any>;
+      check: (value: any) => boolean;
+      message: string | ((value: any) => string);
+      // whether the message was given to refine() rather than the default
+      explicitMessage: boolean;
+    }
+  | {
+      kind: "asyncRefinement";
+      base: TypeChecker<any, any>;
+      check: (value: any, signal: AbortSignal) => Promise<boolean>;
+      message: string | ((value: any) => string);
+      explicitMessage: boolean;
+    }
+  | {
+      kind: "transform";
+      base: TypeChecker<any, any>;
+      transform: (value: any) => unknown;
+    }
+  // the building blocks of fromJSONSchema(): a checker applied only to values
+  // of one JSON type, arrays with optional prefix items, and the properties
+  // of an object missing from `known`
+  | { kind: "jsonType"; jsonType: string; type: TypeChecker<any, any> }
+  | {
+      kind: "jsonArray";
+      prefixItems: TypeChecker<any, any>[];
+      items: TypeChecker<any, any>;
+    }
+  | {
+      kind: "additionalProperties";
+      known: string[];
+      type: TypeChecker<any, any>;
+    };
+
+// `T` is the type produced by sanitizing, `I` is the type accepted by `check`;
+// they only differ once a transform is involved
+type TypeCheckerBase<in out T = any, in out I = T> = {
+  def: TypeDef;
+  check(value: unknown): value is I;
+  sanitize(value: I): Sanitized<T>;
   toTypeString(options: TypeStringOptions): string;
+  toJSONSchema(context: JSONSchemaContext): JSONSchema;
+  // the checker before any refinements, whose check tells whether a value has
+  // the right type regardless of them
+  unrefined?: TypeCheckerBase<T, I>;
+  // generates code that checks the value of the expression `value`, setting
+  // the variable `result` to false if it fails; checkers without it are
+  // compiled to a call of their `check`
+  compile?(
+    context: CompileContext,
+    value: string,
+    result: string,
+    path: string[]
+  ): string;
 };
 
-export type TypeChecker<in out T = any> = {
-  check(value: unknown): value is T;
-  sanitize(value: T): Sanitized<T>;
+export type TypeChecker<in out T = any, in out I = T> = {
+  // how the checker was built, for tools that walk schemas
+  def: TypeDef;
+  check(value: unknown): value is I;
+  is(value: unknown): value is I;
+  sanitize(value: I): Sanitized<T>;
   toTypeString(options?: TypeStringOptions): string;
+  toJSONSchema(context: JSONSchemaContext): JSONSchema;
+  withJSONSchema(schema: JSONSchema): TypeChecker<T, I>;
   refine(
-    check: (value: T) => boolean,
-    message?: string | ((value: T) => string)
-  ): TypeChecker<T>;
+    check: (value: I) => boolean,
+    message?: string | ((value: I) => string)
+  ): TypeChecker<T, I>;
+  refineAsync(
+    check: (value: I, signal: AbortSignal) => Promise<boolean>,
+    message?: string | ((value: I) => string)
+  ): TypeChecker<T, I>;
+  transform<U>(fn: (value: T) => U): TypeChecker<U, I>;
 };
 
-function createTypeChecker<T>(base: TypeCheckerBase<T>): TypeChecker<T> {
-  const result: TypeChecker<T> = {
-    ...base,
+// the error for `value` failing a refinement; like a number constraint's, a
+// message given to the refinement is kept by message formatters
+function refinementError(
+  field: FieldPath,
+  message: string | ((value: any) => string),
+  explicitMessage: boolean,
+  value: unknown
+): ParseError {
+  const error = new ParseError(
+    field,
+    typeof message === "string" ? message : message(value)
+  );
+  error.explicitMessage = explicitMessage;
+  return error;
+}
+
+// checks a value without reporting errors or queueing async refinements
+function checkSilently<I>(
+  type: { check(value: unknown): value is I },
+  value: unknown
+): value is I {
+  const save = currentErrors;
+  const savePending = asyncRefinements.pending;
+  currentErrors = undefined;
+  if (savePending !== undefined) {
+    asyncRefinements.pending = "assume";
+  }
+  try {
+    return type.check(value);
+  } finally {
+    currentErrors = save;
+    asyncRefinements.pending = savePending;
+  }
+}
+
+// the base of every checker, so that compile() can reach past the wrappers
+const bases = new WeakMap<TypeChecker<any, any>, TypeCheckerBase<any, any>>();
+
+function createTypeChecker<T, I = T>(
+  base: TypeCheckerBase<T, I>
+): TypeChecker<T, I> {
+  let validate: Validator | undefined;
+  // only the public members are copied; `compile` and `unrefined` stay on
+  // the base, which is found through `bases`
+  const result: TypeChecker<T, I> = {
+    def: base.def,
+    check: base.check,
+    toJSONSchema: base.toJSONSchema,
+    is(value): value is I {
+      // compiled on first use; without an error list, the generated code
+      // never builds errors, field paths or messages
+      if (validate === undefined) {
+        try {
+          validate = compileValidator(base);
+        } catch (e) {
+          // code generation is disallowed, such as by a Content Security
+          // Policy, so the checker is interpreted instead
+          if (!(e instanceof EvalError)) {
+            throw e;
+          }
+          validate = (value) => base.check(value);
+        }
+      }
+      const save = currentErrors;
+      const savePending = asyncRefinements.pending;
+      currentErrors = undefined;
+      if (savePending !== undefined) {
+        asyncRefinements.pending = "assume";
+      }
+      try {
+        return validate(value, undefined, true);
+      } finally {
+        currentErrors = save;
+        asyncRefinements.pending = savePending;
+      }
+    },
     sanitize(value) {
-      if (!base.check(value)) {
+      if (!checkSilently(base, value)) {
         throw new Error(
           "attempt to sanitize a value that does not pass typechecking"
         );
@@ -39,41 +231,202 @@ function createTypeChecker<T>(base: TypeCheckerBase<T>): TypeChecker<T> {
       return base.sanitize(value);
     },
     toTypeString(options?: TypeStringOptions): string {
+      // while generating declarations, named checkers render as their name,
+      // except for the one currently being declared
+      const name = currentDeclarations?.names.get(result);
+      if (name !== undefined) {
+        if (currentDeclarations!.declaring !== result) {
+          return name;
+        }
+        currentDeclarations!.declaring = undefined;
+      }
+
       return base.toTypeString({
         ...defaultTypeStringOptions,
         ...(options ?? {}),
       });
     },
-    refine(check, message = "invalid value") {
-      return createTypeChecker<T>({
+    refine(check, givenMessage) {
+      const message = givenMessage ?? "invalid value";
+      const explicitMessage = givenMessage !== undefined;
+      const unrefined = base.unrefined ?? base;
+      return createTypeChecker<T, I>({
         ...base,
-        check(value: unknown): value is T {
-          if (!base.check(value)) {
+        def: {
+          kind: "refinement",
+          base: result,
+          check,
+          message,
+          explicitMessage,
+        },
+        unrefined,
+        check(value: unknown): value is I {
+          const good = base.check(value);
+          // when reporting every error, a value of the right type that failed
+          // an earlier refinement is still checked against this one
+          if (
+            !good &&
+            (abortEarly() !== false || !checkSilently(unrefined, value))
+          ) {
             return false;
           }
 
-          if (!check(value)) {
-            const computedMessage =
-              typeof message === "string" ? message : message(value);
+          if (!check(value as I)) {
             currentErrors?.push(
-              new ParseError([...currentField], computedMessage)
+              refinementError(
+                [...currentField],
+                message,
+                explicitMessage,
+                value
+              )
             );
             return false;
           }
 
-          return true;
+          return good;
+        },
+        compile(context, value, result, path) {
+          const baseResult = context.variable();
+          const predicate = context.bind(check);
+          const hasType = context.bind((value: unknown) =>
+            checkSilently(unrefined, value)
+          );
+          const error = context.bind(refinementError);
+          const field = [`...${context.bind(currentField)}`, ...path].join(
+            ", "
+          );
+          return `let ${baseResult} = true;
+${compileBase(context, base, value, baseResult, path)}
+if (!${baseResult} && (${abortEarlyCode} !== false || !${hasType}(${value}))) {
+  ${result} = false;
+} else if (!${predicate}(${value})) {
+  if (e !== undefined) {
+    e.push(${error}([${field}], ${context.bind(
+            message
+          )}, ${explicitMessage}, ${value}));
+  }
+  ${result} = false;
+} else if (!${baseResult}) {
+  ${result} = false;
+}`;
+        },
+      });
+    },
+    refineAsync(check, givenMessage) {
+      const message = givenMessage ?? "invalid value";
+      const explicitMessage = givenMessage !== undefined;
+      const unrefined = base.unrefined ?? base;
+      const refined = createTypeChecker<T, I>({
+        ...base,
+        def: {
+          kind: "asyncRefinement",
+          base: result,
+          check,
+          message,
+          explicitMessage,
+        },
+        unrefined,
+        check(value: unknown): value is I {
+          const pending = asyncRefinements.pending;
+          if (pending === undefined) {
+            throw new Error(
+              "async refinements can only be checked by parseAsync"
+            );
+          }
+
+          const start = pending === "assume" ? 0 : pending.length;
+          const good = base.check(value);
+          if (
+            !good &&
+            (abortEarly() !== false || !checkSilently(unrefined, value))
+          ) {
+            return false;
+          }
+
+          if (pending === "assume") {
+            return good && !asyncRefinements.rejected?.get(refined)?.has(value);
+          }
+          const field = [...currentField];
+          pending.push({
+            field,
+            after: pending.slice(start),
+            checker: refined,
+            value,
+            async run(signal) {
+              if (await check(value as I, signal)) {
+                return undefined;
+              }
+              return refinementError(field, message, explicitMessage, value);
+            },
+          });
+          return good;
+        },
+        compile(context, value, result, path) {
+          return compileCall(context, this, value, result, path);
+        },
+      });
+      return refined;
+    },
+    transform(fn) {
+      return createTypeChecker({
+        ...base,
+        def: { kind: "transform", base: result, transform: fn },
+        sanitize(value) {
+          const { value: sanitized } = base.sanitize(value);
+          try {
+            return { __sanitized: true, value: fn(sanitized) };
+          } catch (e) {
+            const error = new ParseError(
+              [...currentField],
+              e instanceof Error ? e.message : String(e)
+            );
+            if (!currentErrors) {
+              throw error;
+            }
+            // parse() reports the collected errors, so the value is never used
+            currentErrors.push(error);
+            return { __sanitized: true, value: undefined as any };
+          }
+        },
+      });
+    },
+    withJSONSchema(schema) {
+      return createTypeChecker<T, I>({
+        ...base,
+        toJSONSchema(context) {
+          // the given keywords refine the base schema, or replace it entirely
+          // when the base cannot be represented
+          const marker = {};
+          try {
+            return {
+              ...base.toJSONSchema({
+                ...context,
+                unrepresentable() {
+                  throw marker;
+                },
+              }),
+              ...schema,
+            };
+          } catch (e) {
+            if (e !== marker) {
+              throw e;
+            }
+            return schema;
+          }
         },
       });
     },
   };
+  bases.set(result, base);
   return result;
 }
 
-export type OptionalWrapper<T> = { optional: TypeChecker<T> };
+export type OptionalWrapper<T, I = T> = { optional: TypeChecker<T, I> };
+export type DefaultWrapper<T, I = T> = OptionalWrapper<T, I> & { default: T };
 
 export function isTypeChecker<T = unknown>(
   value: unknown
-): value is TypeChecker<T> {
+): value is TypeChecker<T, unknown> {
   return value instanceof Object && "check" in value && "toTypeString" in value;
 }
 
@@ -87,11 +440,10 @@ function _class<T extends abstract new (...args: any) => any>(
   classObj: T
 ): TypeChecker<InstanceType<T>> {
   return createTypeChecker({
+    def: { kind: "class", class: classObj },
     check(value): value is InstanceType<T> {
       if (!(value instanceof classObj)) {
-        currentErrors?.push(
-          new ParseError([...currentField], `expected ${classObj.name}`)
-        );
+        currentErrors?.push(invalidType(classObj.name, value));
         return false;
       }
 
@@ -104,7 +456,18 @@ function _class<T extends abstract new (...args: any) => any>(
       };
     },
     toTypeString() {
-      return classObj.name;
+      return (
+        currentDeclarations?.unrepresentable(classObj.name) ?? classObj.name
+      );
+    },
+    toJSONSchema(context) {
+      return context.unrepresentable(classObj.name);
+    },
+    compile(context, value, result, path) {
+      return `if (!(${value} instanceof ${context.bind(classObj)})) {
+  ${compileInvalidType(context, path, value, classObj.name)}
+  ${result} = false;
+}`;
     },
   });
 }
@@ -115,11 +478,10 @@ export function nominal<T>(
   name: string
 ): TypeChecker<T> {
   return createTypeChecker({
+    def: { kind: "nominal", name, check: checker },
     check(value): value is T {
       if (!checker(value)) {
-        currentErrors?.push(
-          new ParseError([...currentField], `expected ${name}`)
-        );
+        currentErrors?.push(invalidType(name, value));
         return false;
       }
 
@@ -132,28 +494,162 @@ export function nominal<T>(
       };
     },
     toTypeString() {
-      return name;
+      return currentDeclarations?.unrepresentable(name) ?? name;
+    },
+    toJSONSchema(context) {
+      return context.unrepresentable(name);
+    },
+    compile(context, value, result, path) {
+      return `if (!${context.bind(checker)}(${value})) {
+  ${compileInvalidType(context, path, value, name)}
+  ${result} = false;
+}`;
+    },
+  });
+}
+
+const expandingLazies = new Set<TypeChecker>();
+
+export function lazy<T, I = T>(
+  getter: () => TypeChecker<T, I>,
+  name: string
+): TypeChecker<T, I> {
+  let resolved: TypeChecker<T, I> | undefined;
+  const resolve = () => (resolved ??= getter());
+
+  const self: TypeChecker<T, I> = createTypeChecker({
+    def: { kind: "lazy", name, resolve },
+    check(value): value is I {
+      return resolve().check(value);
+    },
+    sanitize(value) {
+      return resolve().sanitize(value);
+    },
+    toTypeString(options) {
+      // while generating declarations, a lazy checker that was not given a
+      // name is declared separately under its own name
+      if (currentDeclarations && !currentDeclarations.names.has(self)) {
+        return currentDeclarations.declare(self, name);
+      }
+
+      // a recursive reference renders as its name rather than expanding forever
+      if (expandingLazies.has(self)) {
+        return name;
+      }
+
+      expandingLazies.add(self);
+      try {
+        return resolve().toTypeString(options);
+      } finally {
+        expandingLazies.delete(self);
+      }
+    },
+    toJSONSchema(context) {
+      let defName = context.names.get(self);
+      if (defName === undefined) {
+        defName = name;
+        for (let i = 2; Object.hasOwn(context.defs, defName); i++) {
+          defName = `${name}${i}`;
+        }
+        context.names.set(self, defName);
+        // reserve the name before descending, so recursive uses refer to it
+        context.defs[defName] = {};
+        context.defs[defName] = resolve().toJSONSchema(context);
+      }
+      return { $ref: `#/$defs/${defName}` };
+    },
+    compile(context, value, result, path) {
+      // compiled to a function of its own, which recursive uses can call
+      const fn = context.define(self, (value, result) =>
+        context.check(resolve(), value, result, [])
+      );
+      return withPath(
+        context,
+        path,
+        `if (!${fn}(${value}, e, a, m)) {
+  ${result} = false;
+}`
+      );
     },
   });
+  return self;
 }
 
-export type TypeOf<T> = T extends TypeChecker<infer K>
+export type TypeOf<T> = T extends TypeChecker<infer K, any>
+  ? K
+  : T extends DefaultWrapper<infer K, any>
+  ? K
+  : T extends OptionalWrapper<infer K, any>
+  ? K | undefined
+  : never;
+export type InputOf<T> = T extends TypeChecker<any, infer K>
   ? K
-  : T extends OptionalWrapper<infer K>
+  : T extends OptionalWrapper<any, infer K>
   ? K | undefined
   : never;
-type TypeOfDefaultTop<T> = T extends TypeChecker<infer K>
+type TypeOfDefaultTop<T> = T extends TypeChecker<infer K, any>
+  ? K
+  : T extends DefaultWrapper<infer K, any>
+  ? K
+  : T extends OptionalWrapper<infer K, any>
+  ? K | undefined
+  : unknown;
+type InputOfDefaultTop<T> = T extends TypeChecker<any, infer K>
   ? K
-  : T extends OptionalWrapper<infer K>
+  : T extends OptionalWrapper<any, infer K>
   ? K | undefined
   : unknown;
 
 export type FieldPath = (string | number)[];
 
-export class ParseError extends Error {
+// the parameters of each kind of error, by code
+export type ParseErrorParams = {
+  // `expected` describes the type, `received` is the kind of value given,
+  // such as "string", "array" or "null"
+  invalid_type: { expected: string; received: string };
+  // a string that a coercing checker could not convert
+  invalid_conversion: { expected: string; value: string };
+  invalid_literal: { expected: LiteralBase[]; received: string };
+  invalid_union: { expected: string; received: string };
+  // the value of `key` is not one of the tags of a discriminated union
+  invalid_union_discriminator: { key: string; expected: LiteralBase[] };
+  unrecognized_key: { key: string };
+  // for arrays, `received` is the length
+  too_small:
+    | { type: "array"; minimum: number; received: number }
+    | { type: "number"; minimum: number; inclusive: boolean; received: number };
+  too_big:
+    | { type: "array"; maximum: number; received: number }
+    | { type: "number"; maximum: number; inclusive: boolean; received: number };
+  not_integer: { received: number };
+  not_finite: { received: number };
+  not_multiple_of: { multipleOf: number; received: number };
+  // where the JSON stops being valid, as an index into the string and as a
+  // line and column counted from 1
+  invalid_json: { offset: number; line: number; column: number };
+  // stands in for the errors past the maxErrors parse option; checking stops
+  // there, so how many more there are is not known
+  too_many_errors: { maxErrors: number };
+  // reported by refinements and transforms
+  custom: {};
+};
+export type ParseErrorCode = keyof ParseErrorParams;
+
+export class ParseError<
+  C extends ParseErrorCode = ParseErrorCode
+> extends Error {
   fieldPath: string;
+  // whether the message was given with the schema, such as to refine() or a
+  // number constraint, rather than being the default for the code; message
+  // formatters keep such messages
+  explicitMessage = false;
 
-  constructor(public field: FieldPath, message: string) {
+  constructor(
+    public field: FieldPath,
+    message: string,
+    public code: C = "custom" as C,
+    public params: ParseErrorParams[C] = {} as ParseErrorParams[C]
+  ) {
     const fieldPath = field
       .map((x) => (typeof x === "number" ? `[${x}]` : `.${x}`))
       .join("")
@@ -162,6 +658,10 @@ export class ParseError extends Error {
     this.fieldPath = fieldPath;
   }
 
+  hasCode<K extends ParseErrorCode>(code: K): this is ParseError<K> {
+    return (this.code as ParseErrorCode) === code;
+  }
+
   toString() {
     return `${this.field.length > 0 ? this.fieldPath + ": " : ""}${
       this.message
@@ -169,6 +669,110 @@ export class ParseError extends Error {
   }
 }
 
+// formats the message of an error from its code, path and parameters;
+// returning undefined keeps the default message
+export type MessageFormatter = (error: ParseError) => string | undefined;
+
+export type MessageCatalog = {
+  [C in ParseErrorCode]: (error: ParseError<C>) => string;
+};
+
+// the default messages; custom errors keep the message given to refine
+export const englishMessages: MessageCatalog = {
+  invalid_type: ({ params }) => `expected ${params.expected}`,
+  invalid_conversion: ({ params }) =>
+    `cannot convert ${JSON.stringify(params.value)} to ${params.expected}`,
+  invalid_literal: ({ params }) =>
+    `expected ${params.expected.map(literalString).join(" | ")}`,
+  invalid_union: ({ params }) => `expected ${params.expected}`,
+  invalid_union_discriminator: ({ params }) =>
+    `unknown tag, expected ${params.expected.map(literalString).join(" | ")}`,
+  unrecognized_key: () => "unexpected key",
+  too_small: ({ params }) =>
+    params.type === "array"
+      ? `expected array of length ${params.minimum}`
+      : `expected number ${params.inclusive ? ">=" : ">"} ${params.minimum}`,
+  too_big: ({ params }) =>
+    params.type === "array"
+      ? `expected array of length ${params.maximum}`
+      : `expected number ${params.inclusive ? "<=" : "<"} ${params.maximum}`,
+  not_integer: () => "expected integer",
+  not_finite: () => "expected finite number",
+  not_multiple_of: ({ params }) => `expected multiple of ${params.multipleOf}`,
+  invalid_json: () => "Failed to parse JSON",
+  too_many_errors: ({ params }) =>
+    `more than ${params.maxErrors} error${
+      params.maxErrors === 1 ? "" : "s"
+    }, the rest were not checked`,
+  custom: ({ message }) => message,
+};
+
+// a formatter looking messages up in `catalog`, such as a translation of
+// `englishMessages`; codes missing from it keep their default message
+export function messageFormatter(
+  catalog: Partial<MessageCatalog>
+): MessageFormatter {
+  return (error) =>
+    (catalog[error.code] as ((error: ParseError) => string) | undefined)?.(
+      error
+    );
+}
+
+let globalMessageFormatter: MessageFormatter | undefined;
+
+// sets the formatter used by every parse without a formatMessage option
+export function setMessageFormatter(
+  formatter: MessageFormatter | undefined
+): void {
+  globalMessageFormatter = formatter;
+}
+
+// the kind of a value, as reported in the `received` parameter of errors
+function typeName(value: unknown): string {
+  if (value === null) {
+    return "null";
+  } else if (value instanceof Array) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function invalidType(expected: string, value: unknown): ParseError {
+  return new ParseError(
+    [...currentField],
+    `expected ${expected}`,
+    "invalid_type",
+    { expected, received: typeName(value) }
+  );
+}
+
+// an array of the wrong length, as reported by tuples
+function lengthError(expected: number, received: number): ParseError {
+  const message = "expected array of length " + expected;
+  return received < expected
+    ? new ParseError([...currentField], message, "too_small", {
+        type: "array",
+        minimum: expected,
+        received,
+      })
+    : new ParseError([...currentField], message, "too_big", {
+        type: "array",
+        maximum: expected,
+        received,
+      });
+}
+
+// the values allowed by a union of literals, such as an enum, which is
+// reported as an invalid literal rather than an invalid union
+function unionLiterals(
+  args: TypeChecker<any, any>[]
+): LiteralBase[] | undefined {
+  if (args.every((type) => "value" in type)) {
+    return args.map((type) => (type as LiteralTypeChecker<any>).value);
+  }
+  return undefined;
+}
+
 export type ParseResult<T> =
   | {
       success: true;
@@ -183,141 +787,861 @@ export type ParseResult<T> =
       unwrap: () => never;
     };
 
-export function parseJSON<T>(
-  schema: TypeChecker<T>,
-  json: string
+export type ParseOptions = {
+  // `true` stops at the first error, and `false` reports every error, even
+  // among the elements of arrays, maps and sets; by default, those stop at
+  // their first bad element while everything else reports every error
+  abortEarly?: boolean;
+  // checking stops once there are more than `maxErrors` errors, and those
+  // past the first `maxErrors` are replaced by one error counting them
+  maxErrors?: number;
+  // overrides the formatter set by setMessageFormatter
+  formatMessage?: MessageFormatter;
+};
+
+function parseFailure<T>(
+  errors: ParseError[],
+  options: ParseOptions = {}
+): ParseResult<T> {
+  const { maxErrors = Infinity } = options;
+  if (errors.length > maxErrors) {
+    const tooMany = new ParseError([], "", "too_many_errors", { maxErrors });
+    tooMany.message = englishMessages.too_many_errors(tooMany);
+    errors = [...errors.slice(0, maxErrors), tooMany];
+  }
+
+  const formatMessage = options.formatMessage ?? globalMessageFormatter;
+  if (formatMessage) {
+    for (const error of errors) {
+      if (!error.explicitMessage) {
+        error.message = formatMessage(error) ?? error.message;
+      }
+    }
+  }
+
+  return {
+    success: false,
+    value: undefined,
+    errors,
+    unwrap: () => {
+      throw errors[0];
+    },
+  };
+}
+
+export function parseJSON<T, I>(
+  schema: TypeChecker<T, I>,
+  json: string,
+  options: ParseOptions = {}
 ): ParseResult<T> {
   let obj: unknown;
   try {
     obj = JSON.parse(json);
   } catch (e) {
-    const error = new ParseError([], "Failed to parse JSON");
-    return {
-      success: false,
-      value: undefined,
-      errors: [error],
-      unwrap: () => {
-        throw error;
-      },
-    };
+    const offset = syntaxErrorOffset(json);
+    return parseFailure(
+      [
+        new ParseError([], "Failed to parse JSON", "invalid_json", {
+          offset,
+          ...lineAndColumn(json, offset),
+        }),
+      ],
+      options
+    );
   }
 
-  return parse(schema, obj);
+  return parse(schema, obj, options);
 }
 
-let currentErrors: ParseError[] | undefined;
-const currentField: FieldPath = [];
-export function parse<T>(schema: TypeChecker<T>, obj: unknown): ParseResult<T> {
-  const save = currentErrors;
-  currentErrors = [];
+// where a value, or the key of a property, is written in a JSON string
+type Span = { start: number; end: number };
+
+type JSONNode = Span & {
+  key?: Span;
+  children?: Map<string | number, JSONNode> | undefined;
+};
+
+class JSONSyntaxError extends Error {
+  constructor(public offset: number) {
+    super(`invalid JSON at offset ${offset}`);
+  }
+}
+
+// finds where each value of a JSON string is written, throwing a
+// JSONSyntaxError where the string is not valid JSON
+function scanJSON(json: string): JSONNode {
+  let pos = 0;
+  const fail = (): never => {
+    throw new JSONSyntaxError(pos);
+  };
+  const skipWhitespace = () => {
+    while (pos < json.length && " \t\n\r".includes(json[pos]!)) {
+      pos++;
+    }
+  };
+  const expect = (text: string) => {
+    for (const char of text) {
+      if (json[pos] !== char) {
+        fail();
+      }
+      pos++;
+    }
+  };
+  const string = (): string => {
+    const start = pos;
+    expect('"');
+    while (json[pos] !== '"') {
+      if (pos >= json.length || json.charCodeAt(pos) < 0x20) {
+        fail();
+      } else if (json[pos] === "\\") {
+        pos++;
+        if (json[pos] === "u") {
+          pos++;
+          for (let i = 0; i < 4; i++) {
+            if (!/[0-9a-fA-F]/.test(json[pos] ?? "")) {
+              fail();
+            }
+            pos++;
+          }
+        } else if (pos < json.length && '"\\/bfnrt'.includes(json[pos]!)) {
+          pos++;
+        } else {
+          fail();
+        }
+      } else {
+        pos++;
+      }
+    }
+    pos++;
+    return JSON.parse(json.slice(start, pos));
+  };
+  const numberPattern = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+
+  // the arrays and objects being scanned, innermost last, with the key of the
+  // value being scanned in objects; a stack rather than recursion, so that
+  // deeply nested JSON cannot overflow the call stack
+  type Frame = {
+    node: JSONNode;
+    children: Map<string | number, JSONNode>;
+    object: boolean;
+    key?: { name: string; span: Span };
+  };
+  const stack: Frame[] = [];
+  const readKey = (frame: Frame) => {
+    skipWhitespace();
+    const start = pos;
+    const name = string();
+    frame.key = { name, span: { start, end: pos } };
+    skipWhitespace();
+    expect(":");
+  };
+
+  for (;;) {
+    skipWhitespace();
+    const start = pos;
+    const char = json[pos];
+    let node: JSONNode;
+    if (char === "{" || char === "[") {
+      pos++;
+      const children = new Map<string | number, JSONNode>();
+      node = { start, end: pos, children };
+      skipWhitespace();
+      if (json[pos] === (char === "{" ? "}" : "]")) {
+        pos++;
+        node.end = pos;
+      } else {
+        const frame: Frame = { node, children, object: char === "{" };
+        stack.push(frame);
+        if (frame.object) {
+          readKey(frame);
+        }
+        continue;
+      }
+    } else {
+      if (char === '"') {
+        string();
+      } else if (char === "t") {
+        expect("true");
+      } else if (char === "f") {
+        expect("false");
+      } else if (char === "n") {
+        expect("null");
+      } else {
+        numberPattern.lastIndex = pos;
+        const match = numberPattern.exec(json);
+        if (match === null) {
+          fail();
+        }
+        pos += match![0].length;
+      }
+      node = { start, end: pos, children: undefined };
+    }
+
+    // adds the finished value to the arrays and objects it completes, until
+    // one of them continues with another value
+    for (;;) {
+      const frame = stack[stack.length - 1];
+      if (frame === undefined) {
+        skipWhitespace();
+        if (pos < json.length) {
+          fail();
+        }
+        return node;
+      }
+      if (frame.key) {
+        node.key = frame.key.span;
+        // as with JSON.parse, the last of repeated keys is the one kept
+        frame.children.delete(frame.key.name);
+        frame.children.set(frame.key.name, node);
+      } else {
+        frame.children.set(frame.children.size, node);
+      }
+      skipWhitespace();
+      if (json[pos] === ",") {
+        pos++;
+        if (frame.object) {
+          readKey(frame);
+        }
+        break;
+      }
+      expect(frame.object ? "}" : "]");
+      frame.node.end = pos;
+      stack.pop();
+      node = frame.node;
+    }
+  }
+}
+
+function syntaxErrorOffset(json: string): number {
   try {
-    if (!schema.check(obj)) {
-      const errors = currentErrors;
-      return {
-        success: false,
-        value: undefined,
-        errors,
-        unwrap: () => {
-          throw errors[0];
-        },
-      };
+    scanJSON(json);
+  } catch (e) {
+    if (e instanceof JSONSyntaxError) {
+      return e.offset;
     }
-  } finally {
-    currentErrors = save;
+    throw e;
   }
+  // only reached if JSON.parse rejects something that scanJSON accepts
+  return 0;
+}
 
-  const { value } = schema.sanitize(obj);
+function lineAndColumn(
+  json: string,
+  offset: number
+): { line: number; column: number } {
+  const before = json.slice(0, offset);
   return {
-    success: true,
-    value,
-    errors: undefined,
-    unwrap: () => value,
+    line: before.split("\n").length,
+    column: offset - before.lastIndexOf("\n"),
   };
 }
 
-export function optional<T>(type: TypeChecker<T>): OptionalWrapper<T> {
-  return { optional: type };
+// where the value of an error is written; for a value that is missing, such
+// as a required property, that is the start of the closest value containing it
+function locateError(root: JSONNode, error: ParseError): Span {
+  let node = root;
+  for (const key of error.field) {
+    const child = node.children?.get(key) ?? node.children?.get(String(key));
+    if (child === undefined) {
+      return { start: node.start, end: node.start + 1 };
+    }
+    node = child;
+  }
+  if (error.hasCode("unrecognized_key") && node.key) {
+    return node.key;
+  }
+  return node;
 }
 
-export function array<T>(type: TypeChecker<T>): TypeChecker<T[]> {
-  return createTypeChecker({
-    check(value): value is T[] {
-      if (!(value instanceof Array)) {
-        currentErrors?.push(
-          new ParseError([...currentField], "expected array")
-        );
-        return false;
+// renders errors as a report, one error per paragraph; given the JSON string
+// that was parsed, each error is shown with the line where its value is
+// written, with the value underlined, like a compiler diagnostic
+export function renderErrors(errors: ParseError[], json?: string): string {
+  let root: JSONNode | undefined;
+  if (json !== undefined) {
+    try {
+      root = scanJSON(json);
+    } catch (e) {
+      if (!(e instanceof JSONSyntaxError)) {
+        throw e;
       }
+    }
+  }
 
-      for (const [i, v] of Object.entries(value)) {
-        if (String(parseInt(i)) !== i) {
-          continue;
-        }
-
-        try {
-          currentField.push(Number(i));
-          const success = type.check(v);
-          if (!success) {
-            return false;
-          }
-        } finally {
-          currentField.pop();
-        }
+  return errors
+    .map((error) => {
+      let span: Span | undefined;
+      if (error.hasCode("invalid_json")) {
+        span = { start: error.params.offset, end: error.params.offset + 1 };
+      } else if (root && !error.hasCode("too_many_errors")) {
+        span = locateError(root, error);
+      }
+      if (json === undefined || span === undefined) {
+        return error.toString();
       }
 
-      return true;
-    },
-    sanitize(value) {
-      const newValue: T[] = Array(value.length);
-
-      for (const [k, v] of Object.entries(value)) {
-        newValue[Number(k)] = type.sanitize(v).value;
+      const { line, column } = lineAndColumn(json, span.start);
+      const lineStart = span.start - column + 1;
+      let lineEnd = json.indexOf("\n", lineStart);
+      if (lineEnd === -1) {
+        lineEnd = json.length;
       }
+      const text = json.slice(lineStart, lineEnd).replace(/\r$/, "");
+      // only the part of the value on its first line is underlined, with
+      // at least one caret, so the end of the input can be pointed at too
+      const width = Math.max(
+        1,
+        Math.min(span.end, lineStart + text.length) - span.start
+      );
+      const gutter = " ".repeat(String(line).length);
+      const indent = text.slice(0, column - 1).replace(/[^\t]/g, " ");
+      return [
+        error.toString(),
+        `${gutter}--> ${line}:${column}`,
+        `${gutter} |`,
+        `${line} | ${text}`,
+        `${gutter} | ${indent}${"^".repeat(width)}`,
+      ].join("\n");
+    })
+    .join("\n\n");
+}
 
-      return {
-        __sanitized: true,
-        value: newValue,
+type UnionToIntersection<U> = (
+  U extends unknown ? (x: U) => void : never
+) extends (x: infer I) => void
+  ? I
+  : never;
+
+// the errors below a value, by the segments of their paths: the indices of
+// arrays and sets, the index and then "key" or "value" of maps, and the keys of
+// objects; the members of unions share one tree
+type ErrorChildren<T> = T extends readonly (infer E)[]
+  ? { [index: number]: FormattedErrors<E> }
+  : T extends ReadonlyMap<infer K, infer V>
+  ? {
+      [index: number]: FormattedErrors<unknown> & {
+        key?: FormattedErrors<K>;
+        value?: FormattedErrors<V>;
       };
-    },
-    toTypeString(options) {
-      return (
+    }
+  : T extends ReadonlySet<infer E>
+  ? { [index: number]: FormattedErrors<E> }
+  : T extends Function | Date
+  ? {}
+  : T extends object
+  ? { [K in keyof T]?: FormattedErrors<T[K]> }
+  : {};
+
+export type FormattedErrors<T> = { _errors: string[] } & UnionToIntersection<
+  ErrorChildren<T>
+>;
+
+export type FlattenedErrors<T> = {
+  formErrors: string[];
+  fieldErrors: {
+    [K in keyof UnionToIntersection<ErrorChildren<T>>]?: string[];
+  };
+};
+
+// creates the property `key` of `obj`, even if it is a key such as
+// "__proto__", unless it is already an own property
+function ownProperty<V>(obj: object, key: PropertyKey, create: () => V): V {
+  if (!Object.hasOwn(obj, key)) {
+    Object.defineProperty(obj, key, {
+      value: create(),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return (obj as any)[key];
+}
+
+// groups the messages of errors by the first segment of their paths, as
+// fieldErrors, with the errors at the root as formErrors; `schema` is the one
+// the errors were reported by, whose input type gives the keys
+export function flattenErrors<T, I>(
+  schema: TypeChecker<T, I>,
+  errors: ParseError[]
+): FlattenedErrors<I> {
+  const formErrors: string[] = [];
+  const fieldErrors: { [key: string]: string[] } = {};
+  for (const error of errors) {
+    if (error.field.length === 0) {
+      formErrors.push(error.message);
+    } else {
+      ownProperty(fieldErrors, error.field[0]!, (): string[] => []).push(
+        error.message
+      );
+    }
+  }
+  return { formErrors, fieldErrors } as FlattenedErrors<I>;
+}
+
+// nests the messages of errors by the segments of their paths, in the
+// `_errors` of each level; `schema` is the one the errors were reported by,
+// whose input type gives the keys
+export function formatErrors<T, I>(
+  schema: TypeChecker<T, I>,
+  errors: ParseError[]
+): FormattedErrors<I> {
+  type Node = { _errors: string[] };
+  const root: Node = { _errors: [] };
+  for (const error of errors) {
+    let node = root;
+    for (const key of error.field) {
+      if (key === "_errors") {
+        // the key is taken by the errors of the enclosing value, so they are
+        // reported there
+        break;
+      }
+      node = ownProperty(node, key, (): Node => ({ _errors: [] }));
+    }
+    node._errors.push(error.message);
+  }
+  return root as FormattedErrors<I>;
+}
+
+let currentErrors: ParseError[] | undefined;
+let currentOptions: ParseOptions = {};
+const currentField: FieldPath = [];
+
+type PendingRefinement = {
+  field: FieldPath;
+  // the refinements queued while checking the value, which have to pass first
+  after: PendingRefinement[];
+  // the checker that queued the refinement, and the value it refines
+  checker: TypeChecker<any, any>;
+  value: unknown;
+  // resolves to the error if the refinement fails; `run` runs other queued
+  // refinements the way parseAsync does, resolving to whether they passed
+  run(
+    signal: AbortSignal,
+    run: (refinement: PendingRefinement) => Promise<boolean>
+  ): Promise<ParseError | undefined>;
+};
+
+// async refinements reached by synchronous checks: parseAsync queues them to
+// run once checking is done, and assumes that they passed while sanitizing,
+// except for the values in `rejected`; anywhere else, they cannot be checked
+const asyncRefinements: {
+  pending: PendingRefinement[] | "assume" | undefined;
+  rejected?: Map<TypeChecker<any, any>, Set<unknown>> | undefined;
+} = { pending: undefined };
+
+// runs `fn` with the state of a parse, restoring the previous state afterwards
+function withParseState<R>(
+  errors: ParseError[],
+  options: ParseOptions,
+  pending: PendingRefinement[] | "assume" | undefined,
+  fn: () => R
+): R {
+  const save = currentErrors;
+  const saveOptions = currentOptions;
+  const savePending = asyncRefinements.pending;
+  currentErrors = errors;
+  currentOptions = options;
+  asyncRefinements.pending = pending;
+  try {
+    return fn();
+  } finally {
+    currentErrors = save;
+    currentOptions = saveOptions;
+    asyncRefinements.pending = savePending;
+  }
+}
+
+// the abortEarly option, which is set once there are more errors than
+// maxErrors, as the rest would be suppressed anyway; a failure is the same
+// either way, so errors that a union discards cannot change the result
+function abortEarly(): boolean | undefined {
+  return currentErrors !== undefined &&
+    currentErrors.length > (currentOptions.maxErrors ?? Infinity)
+    ? true
+    : currentOptions.abortEarly;
+}
+
+function checkParseOptions(options: ParseOptions) {
+  if (options.maxErrors !== undefined && !(options.maxErrors >= 1)) {
+    throw new Error("maxErrors must be at least 1");
+  }
+}
+
+function parseSuccess<T>(value: T): ParseResult<T> {
+  return {
+    success: true,
+    value,
+    errors: undefined,
+    unwrap: () => value,
+  };
+}
+
+export function parse<T, I>(
+  schema: TypeChecker<T, I>,
+  obj: unknown,
+  options: ParseOptions = {}
+): ParseResult<T> {
+  checkParseOptions(options);
+
+  const errors: ParseError[] = [];
+  const result = withParseState(errors, options, undefined, () =>
+    schema.check(obj) ? schema.sanitize(obj) : undefined
+  );
+  // transforms run while sanitizing, and may report errors of their own
+  if (result === undefined || errors.length > 0) {
+    return parseFailure(errors, options);
+  }
+
+  return parseSuccess(result.value);
+}
+
+export type ParseAsyncOptions = ParseOptions & {
+  signal?: AbortSignal;
+};
+
+export async function parseAsync<T, I>(
+  schema: TypeChecker<T, I>,
+  obj: unknown,
+  options: ParseAsyncOptions = {}
+): Promise<ParseResult<T>> {
+  checkParseOptions(options);
+  const { signal = new AbortController().signal } = options;
+  signal.throwIfAborted();
+
+  const errors: ParseError[] = [];
+  const pending: PendingRefinement[] = [];
+  const good = withParseState(errors, options, pending, () =>
+    schema.check(obj)
+  );
+  if (!good && options.abortEarly !== false) {
+    return parseFailure(errors, options);
+  }
+
+  // independent refinements run concurrently, while a refinement of a value
+  // waits for those of its parts, like a synchronous refinement would
+  const asyncErrors = new Map<PendingRefinement, ParseError>();
+  const rejected = new Map<TypeChecker<any, any>, Set<unknown>>();
+  const results = new Map<PendingRefinement, Promise<boolean>>();
+  const run = (refinement: PendingRefinement): Promise<boolean> => {
+    let result = results.get(refinement);
+    if (result === undefined) {
+      result = (async () => {
+        const passed = await Promise.all(refinement.after.map(run));
+        if (!passed.every(Boolean) && options.abortEarly !== false) {
+          return false;
+        }
+        const error = await refinement.run(signal, run);
+        if (error === undefined) {
+          return true;
+        }
+        asyncErrors.set(refinement, error);
+        let values = rejected.get(refinement.checker);
+        if (values === undefined) {
+          values = new Set();
+          rejected.set(refinement.checker, values);
+        }
+        values.add(refinement.value);
+        return false;
+      })();
+      results.set(refinement, result);
+    }
+    return result;
+  };
+
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort);
+  });
+  // an abort is reported by the race below
+  aborted.catch(() => {});
+  try {
+    await Promise.race([Promise.all(pending.map(run)), aborted]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+
+  for (const refinement of pending) {
+    const error = asyncErrors.get(refinement);
+    if (error !== undefined) {
+      errors.push(error);
+    }
+  }
+  if (errors.length > 0) {
+    return parseFailure(errors, options);
+  }
+
+  // unions sanitize the branch whose async refinements passed
+  const saveRejected = asyncRefinements.rejected;
+  asyncRefinements.rejected = rejected;
+  let result: Sanitized<T>;
+  try {
+    result = withParseState(errors, options, "assume", () =>
+      schema.sanitize(obj as I)
+    );
+  } finally {
+    asyncRefinements.rejected = saveRejected;
+  }
+  if (errors.length > 0) {
+    return parseFailure(errors, options);
+  }
+
+  return parseSuccess(result.value);
+}
+
+export type OptionalOptions<T> = {
+  default: T;
+};
+
+// the wrapped checker's own type is kept so that object helpers such as
+// deepPartial can see through the wrapper
+type OptionalWrapperOf<C extends TypeChecker<any, any>> = OptionalWrapper<
+  TypeOf<C>,
+  InputOf<C>
+> & { optional: C };
+type DefaultWrapperOf<C extends TypeChecker<any, any>> = DefaultWrapper<
+  TypeOf<C>,
+  InputOf<C>
+> & { optional: C };
+
+export function optional<C extends TypeChecker<any, any>>(
+  type: C
+): OptionalWrapperOf<C>;
+export function optional<C extends TypeChecker<any, any>>(
+  type: C,
+  options: OptionalOptions<TypeOf<C>>
+): DefaultWrapperOf<C>;
+export function optional<T, I = T>(
+  type: TypeChecker<T, I>,
+  options?: OptionalOptions<T>
+): OptionalWrapper<T, I> | DefaultWrapper<T, I> {
+  return options
+    ? { optional: type, default: options.default }
+    : { optional: type };
+}
+
+// a copy of a default value for each parse, so that changing one result does
+// not change the default; plain objects, arrays, maps, sets and dates are
+// copied deeply, and other values are shared
+function cloneDefault<T>(value: T): T {
+  if (value instanceof Array) {
+    return value.map(cloneDefault) as T;
+  } else if (value instanceof Map) {
+    return new Map(
+      [...value].map(([k, v]) => [cloneDefault(k), cloneDefault(v)])
+    ) as T;
+  } else if (value instanceof Set) {
+    return new Set([...value].map(cloneDefault)) as T;
+  } else if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  } else if (
+    value instanceof Object &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const obj = {};
+    for (const [k, v] of Object.entries(value)) {
+      ownProperty(obj, k, () => cloneDefault(v));
+    }
+    return obj as T;
+  }
+  return value;
+}
+
+export function array<T, I = T>(
+  type: TypeChecker<T, I>
+): TypeChecker<T[], I[]> {
+  return createTypeChecker({
+    def: { kind: "array", item: type },
+    check(value): value is I[] {
+      if (!(value instanceof Array)) {
+        currentErrors?.push(invalidType("array", value));
+        return false;
+      }
+
+      let good = true;
+      for (const [i, v] of Object.entries(value)) {
+        if (String(parseInt(i)) !== i) {
+          continue;
+        }
+
+        try {
+          currentField.push(Number(i));
+          const success = type.check(v);
+          if (!success) {
+            good = false;
+            if (abortEarly() !== false) {
+              return false;
+            }
+          }
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue: T[] = Array(value.length);
+
+      for (const [k, v] of Object.entries(value)) {
+        try {
+          currentField.push(Number(k));
+          newValue[Number(k)] = type.sanitize(v).value;
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      const result =
         type.toTypeString({
           ...options,
           nested: true,
-        }) + "[]"
-      );
+        }) + "[]";
+      if (!options.readonly) {
+        return result;
+      }
+      return options.nested ? `(readonly ${result})` : `readonly ${result}`;
+    },
+    toJSONSchema(context) {
+      return { type: "array", items: type.toJSONSchema(context) };
+    },
+    compile(context, value, result, path) {
+      const i = context.variable();
+      const item = context.variable();
+      const itemResult = context.variable();
+      return `if (!(${value} instanceof Array)) {
+  ${compileInvalidType(context, path, value, "array")}
+  ${result} = false;
+} else {
+  for (let ${i} = 0; ${i} < ${value}.length; ${i}++) {
+    const ${item} = ${value}[${i}];
+    if (${item} === undefined && !Object.hasOwn(${value}, ${i})) {
+      continue;
+    }
+    let ${itemResult} = true;
+    ${context.check(type, item, itemResult, [...path, i])}
+    if (!${itemResult}) {
+      ${result} = false;
+      if (${abortEarlyCode} !== false) {
+        break;
+      }
+    }
+  }
+}`;
     },
   });
 }
 
-type UnwrapType<T> = T extends OptionalWrapper<infer U>
+type UnwrapType<T> = T extends OptionalWrapper<infer U, any>
+  ? U
+  : T extends TypeChecker<infer U, any>
+  ? U
+  : never;
+type UnwrapInput<T> = T extends OptionalWrapper<any, infer U>
   ? U
-  : T extends TypeChecker<infer U>
+  : T extends TypeChecker<any, infer U>
   ? U
   : never;
+// fields with a default are filled in by sanitize, so they are only optional
+// in the input type
 type ObjectTypeFn<T> = {
-  [I in keyof T as T[I] extends OptionalWrapper<any> ? I : never]?: UnwrapType<
-    T[I]
-  >;
+  [I in keyof T as T[I] extends DefaultWrapper<any, any>
+    ? never
+    : T[I] extends OptionalWrapper<any, any>
+    ? I
+    : never]?: UnwrapType<T[I]>;
+} & {
+  [I in keyof T as T[I] extends DefaultWrapper<any, any>
+    ? I
+    : T[I] extends OptionalWrapper<any, any>
+    ? never
+    : I]: UnwrapType<T[I]>;
+};
+type ObjectInputFn<T> = {
+  [I in keyof T as T[I] extends OptionalWrapper<any, any>
+    ? I
+    : never]?: UnwrapInput<T[I]>;
 } & {
-  [I in keyof T as T[I] extends OptionalWrapper<any> ? never : I]: UnwrapType<
-    T[I]
-  >;
+  [I in keyof T as T[I] extends OptionalWrapper<any, any>
+    ? never
+    : I]: UnwrapInput<T[I]>;
+};
+export type ObjectShape = {
+  [key: string]: TypeChecker<any, any> | OptionalWrapper<any, any>;
 };
-export function object<
-  T extends {
-    [key: string]: TypeChecker<any> | OptionalWrapper<any>;
+export type ObjectType<T extends ObjectShape> = {
+  [K in keyof ObjectTypeFn<T>]: ObjectTypeFn<T>[K];
+};
+export type ObjectInput<T extends ObjectShape> = {
+  [K in keyof ObjectInputFn<T>]: ObjectInputFn<T>[K];
+};
+type ExtendShape<T extends ObjectShape, U extends ObjectShape> = {
+  [K in keyof T | keyof U]: K extends keyof U
+    ? U[K]
+    : K extends keyof T
+    ? T[K]
+    : never;
+};
+type PartialShape<T extends ObjectShape> = {
+  [K in keyof T]: T[K] extends OptionalWrapper<any, any>
+    ? T[K]
+    : OptionalWrapperOf<T[K] & TypeChecker<any, any>>;
+};
+type RequiredShape<T extends ObjectShape> = {
+  [K in keyof T]: T[K] extends {
+    optional: infer C extends TypeChecker<any, any>;
   }
->(
-  schema: T
-): TypeChecker<{ [K in keyof ObjectTypeFn<T>]: ObjectTypeFn<T>[K] }> {
-  type Target = { [K in keyof ObjectTypeFn<T>]: ObjectTypeFn<T>[K] };
-  return createTypeChecker({
-    check(value): value is Target {
+    ? C
+    : T[K];
+};
+type DeepPartialChecker<C> = C extends { shape: infer S extends ObjectShape }
+  ? ObjectTypeChecker<DeepPartialShape<S>>
+  : C;
+type DeepPartialShape<T extends ObjectShape> = {
+  [K in keyof T]: T[K] extends DefaultWrapper<any, any>
+    ? T[K]
+    : T[K] extends { optional: infer C }
+    ? OptionalWrapperOf<DeepPartialChecker<C> & TypeChecker<any, any>>
+    : OptionalWrapperOf<DeepPartialChecker<T[K]> & TypeChecker<any, any>>;
+};
+export type ObjectTypeChecker<T extends ObjectShape> = TypeChecker<
+  ObjectType<T>,
+  ObjectInput<T>
+> & {
+  shape: T;
+  unknownKeys: UnknownKeys;
+  extend<U extends ObjectShape>(shape: U): ObjectTypeChecker<ExtendShape<T, U>>;
+  merge<U extends ObjectShape>(
+    other: ObjectTypeChecker<U>
+  ): ObjectTypeChecker<ExtendShape<T, U>>;
+  pick<K extends keyof T & string>(...keys: K[]): ObjectTypeChecker<Pick<T, K>>;
+  omit<K extends keyof T & string>(...keys: K[]): ObjectTypeChecker<Omit<T, K>>;
+  partial(): ObjectTypeChecker<PartialShape<T>>;
+  deepPartial(): ObjectTypeChecker<DeepPartialShape<T>>;
+  required(): ObjectTypeChecker<RequiredShape<T>>;
+};
+export type UnknownKeys = "strip" | "reject" | "passthrough";
+export type ObjectOptions = {
+  unknownKeys?: UnknownKeys;
+};
+export function object<T extends ObjectShape>(
+  schema: T,
+  options: ObjectOptions = {}
+): ObjectTypeChecker<T> {
+  const { unknownKeys = "strip" } = options;
+  type Target = ObjectType<T>;
+  type Input = ObjectInput<T>;
+  const checker = createTypeChecker({
+    def: { kind: "object", shape: schema, unknownKeys },
+    check(value): value is Input {
       if (!(value instanceof Object)) {
-        currentErrors?.push(
-          new ParseError([...currentField], "expected object")
-        );
+        currentErrors?.push(invalidType("object", value));
         return false;
       }
 
@@ -344,20 +1668,66 @@ export function object<
         } finally {
           currentField.pop();
         }
+        if (!good && abortEarly()) {
+          return false;
+        }
+      }
+
+      if (unknownKeys === "reject") {
+        for (const key of Object.keys(value)) {
+          if (!Object.hasOwn(schema, key)) {
+            currentErrors?.push(
+              new ParseError(
+                [...currentField, key],
+                "unexpected key",
+                "unrecognized_key",
+                { key }
+              )
+            );
+            good = false;
+            if (abortEarly()) {
+              return false;
+            }
+          }
+        }
       }
 
       return good;
     },
-    sanitize(value: Target): Sanitized<Target> {
+    sanitize(value: Input): Sanitized<Target> {
       const newValue: { [key: string]: unknown } = {};
 
       for (const [key, type] of Object.entries(schema)) {
-        if (isOptionalWrapper(type)) {
-          if (Object.hasOwn(value, key) && (value as any)[key] !== undefined) {
-            newValue[key] = type.optional.sanitize((value as any)[key]).value;
+        try {
+          currentField.push(key);
+          if (isOptionalWrapper(type)) {
+            if (
+              Object.hasOwn(value, key) &&
+              (value as any)[key] !== undefined
+            ) {
+              newValue[key] = type.optional.sanitize((value as any)[key]).value;
+            } else if ("default" in type) {
+              newValue[key] = cloneDefault(type.default);
+            }
+          } else {
+            newValue[key] = type.sanitize((value as any)[key]).value;
+          }
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      if (unknownKeys === "passthrough") {
+        for (const [key, v] of Object.entries(value)) {
+          if (!Object.hasOwn(schema, key)) {
+            // defineProperty so that a "__proto__" key stays an ordinary property
+            Object.defineProperty(newValue, key, {
+              value: v,
+              writable: true,
+              enumerable: true,
+              configurable: true,
+            });
           }
-        } else {
-          newValue[key] = type.sanitize((value as any)[key]).value;
         }
       }
 
@@ -372,88 +1742,625 @@ export function object<
       for (const [key, inputType] of Object.entries(schema)) {
         const optional = isOptionalWrapper(inputType);
         const type = optional ? inputType.optional : inputType;
-        result += ` ${key}${optional ? "?" : ""}: ${type.toTypeString({
+        result += ` ${options.readonly ? "readonly " : ""}${propertyKey(key)}${
+          optional ? "?" : ""
+        }: ${type.toTypeString({
           ...options,
           nested: false,
-        })};`;
+        })}`;
+        if (optional && "default" in inputType) {
+          result += ` /* default: ${formatDefault(inputType.default)} */`;
+        }
+        result += ";";
       }
       result += " }";
       return result === "{ }" ? "{}" : result;
     },
-  });
-}
-
-type LiteralBase = string | number | boolean | null | undefined;
-
-export function literal<T extends LiteralBase>(arg: T): TypeChecker<T> {
-  return createTypeChecker({
-    check(value): value is T {
-      if (value !== arg) {
-        currentErrors?.push(
-          new ParseError([...currentField], `expected ${this.toTypeString({})}`)
-        );
-        return false;
+    toJSONSchema(context) {
+      const properties: { [key: string]: JSONSchema } = {};
+      const required: string[] = [];
+      for (const [key, inputType] of Object.entries(schema)) {
+        if (isOptionalWrapper(inputType)) {
+          properties[key] = inputType.optional.toJSONSchema(context);
+          if ("default" in inputType) {
+            properties[key] = {
+              ...properties[key],
+              default: inputType.default,
+            };
+          }
+        } else {
+          properties[key] = inputType.toJSONSchema(context);
+          required.push(key);
+        }
       }
 
-      return true;
-    },
-    sanitize() {
       return {
-        __sanitized: true,
-        value: arg,
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        ...(unknownKeys === "reject" ? { additionalProperties: false } : {}),
       };
     },
-    toTypeString() {
-      if (typeof arg === "string") {
-        return JSON.stringify(arg);
-      } else if (arg === null) {
-        return "null";
-      } else if (arg === undefined) {
-        return "undefined";
-      } else {
-        return String(arg);
+    compile(context, value, result, path) {
+      const good = context.variable();
+      const block = context.variable();
+      let code = `if (!(${value} instanceof Object)) {
+  ${compileInvalidType(context, path, value, "object")}
+  ${result} = false;
+} else {
+  let ${good} = true;
+  ${block}: {`;
+      for (const [key, type] of Object.entries(schema)) {
+        const keyString = JSON.stringify(key);
+        const property = context.variable();
+        if (isOptionalWrapper(type)) {
+          code += `
+    if (Object.hasOwn(${value}, ${keyString})) {
+      const ${property} = ${value}[${keyString}];
+      if (${property} !== undefined) {
+        ${context.check(type.optional, property, good, [...path, keyString])}
       }
+    }`;
+        } else {
+          code += `
+    const ${property} = ${value}[${keyString}];
+    ${context.check(type, property, good, [...path, keyString])}`;
+        }
+        code += `
+    if (!${good} && ${abortEarlyCode} === true) {
+      break ${block};
+    }`;
+      }
+      if (unknownKeys === "reject") {
+        const key = context.variable();
+        code += `
+    for (const ${key} in ${value}) {
+      if (
+        Object.hasOwn(${value}, ${key}) &&
+        !Object.hasOwn(${context.bind(schema)}, ${key})
+      ) {
+        ${context.error(
+          [...path, key],
+          '"unexpected key"',
+          "unrecognized_key",
+          `{ key: ${key} }`
+        )}
+        ${good} = false;
+        if (${abortEarlyCode} === true) {
+          break ${block};
+        }
+      }
+    }`;
+      }
+      return `${code}
+  }
+  if (!${good}) {
+    ${result} = false;
+  }
+}`;
     },
   });
-}
-
-type TupleTypes<Tuple extends [...any[]]> = {
-  [Index in keyof Tuple]: TypeOf<Tuple[Index]>;
-} & { length: Tuple["length"] };
-export function tuple<T extends TypeChecker[]>(
-  ...args: T
-): TypeChecker<TupleTypes<T>> {
-  type Target = TupleTypes<T>;
-  return createTypeChecker({
-    check(value): value is Target {
-      if (!(value instanceof Array)) {
-        currentErrors?.push(
-          new ParseError([...currentField], "expected array")
-        );
-        return false;
+  return Object.assign(checker, {
+    shape: schema,
+    unknownKeys,
+    extend(shape: ObjectShape) {
+      return object({ ...schema, ...shape }, { unknownKeys });
+    },
+    merge(other: ObjectTypeChecker<ObjectShape>) {
+      return object({ ...schema, ...other.shape }, { unknownKeys });
+    },
+    pick(...keys: string[]) {
+      const shape: ObjectShape = {};
+      for (const key of keys) {
+        if (Object.hasOwn(schema, key)) {
+          shape[key] = schema[key]!;
+        }
       }
-
-      if (value.length !== args.length) {
-        currentErrors?.push(
-          new ParseError(
-            [...currentField],
-            "expected array of length " + args.length
-          )
-        );
-        return false;
+      return object(shape, { unknownKeys });
+    },
+    omit(...keys: string[]) {
+      const shape: ObjectShape = { ...schema };
+      for (const key of keys) {
+        delete shape[key];
       }
-
-      let good = true;
-      for (let i = 0; i < args.length; i++) {
-        try {
-          currentField.push(i);
-          const success = args[i]!.check(value[i]);
-          if (!success) {
-            good = false;
+      return object(shape, { unknownKeys });
+    },
+    partial() {
+      return object(
+        mapShape(schema, (type) =>
+          isOptionalWrapper(type) ? type : optional(type)
+        ),
+        { unknownKeys }
+      );
+    },
+    deepPartial() {
+      return object(
+        mapShape(schema, (type) => {
+          if (isOptionalWrapper(type) && "default" in type) {
+            return type;
           }
-        } finally {
+          const inner = isOptionalWrapper(type) ? type.optional : type;
+          return optional(
+            isObjectTypeChecker(inner) ? inner.deepPartial() : inner
+          );
+        }),
+        { unknownKeys }
+      );
+    },
+    required() {
+      return object(
+        mapShape(schema, (type) =>
+          isOptionalWrapper(type) ? type.optional : type
+        ),
+        { unknownKeys }
+      );
+    },
+  }) as ObjectTypeChecker<T>;
+}
+
+function mapShape(
+  schema: ObjectShape,
+  fn: (
+    type: TypeChecker<any, any> | OptionalWrapper<any, any>
+  ) => TypeChecker<any, any> | OptionalWrapper<any, any>
+): ObjectShape {
+  const result: ObjectShape = {};
+  for (const [key, type] of Object.entries(schema)) {
+    result[key] = fn(type);
+  }
+  return result;
+}
+
+export function isObjectTypeChecker(
+  value: unknown
+): value is ObjectTypeChecker<ObjectShape> {
+  return isTypeChecker(value) && "shape" in value;
+}
+
+export function strictObject<T extends ObjectShape>(
+  schema: T
+): ObjectTypeChecker<T> {
+  return object(schema, { unknownKeys: "reject" });
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatDefault(value: unknown): string {
+  let result: string;
+  try {
+    result = JSON.stringify(value) ?? String(value);
+  } catch (e) {
+    result = String(value);
+  }
+  // keep the default from closing the surrounding comment
+  return result.replaceAll("*/", "*\\/");
+}
+
+type RecordType<K extends string, V> = string extends K
+  ? Record<K, V>
+  : Partial<Record<K, V>>;
+export function record<V, VI = V>(
+  value: TypeChecker<V, VI>
+): TypeChecker<Record<string, V>, Record<string, VI>>;
+export function record<K extends string, V, KI extends string = K, VI = V>(
+  key: TypeChecker<K, KI>,
+  value: TypeChecker<V, VI>
+): TypeChecker<RecordType<K, V>, RecordType<KI, VI>>;
+export function record(
+  ...args:
+    | [TypeChecker<any, any>]
+    | [TypeChecker<any, any>, TypeChecker<any, any>]
+): TypeChecker<Record<string, unknown>> {
+  const keyType = args.length === 2 ? args[0] : undefined;
+  const valueType = args.length === 2 ? args[1] : args[0];
+  return createTypeChecker({
+    def: { kind: "record", key: keyType, value: valueType },
+    check(value): value is Record<string, unknown> {
+      if (!(value instanceof Object) || value instanceof Array) {
+        currentErrors?.push(invalidType("object", value));
+        return false;
+      }
+
+      let good = true;
+      for (const [key, v] of Object.entries(value)) {
+        try {
+          currentField.push(key);
+          if (keyType && !keyType.check(key)) {
+            good = false;
+          } else if (!valueType.check(v)) {
+            good = false;
+          }
+        } finally {
+          currentField.pop();
+        }
+        if (!good && abortEarly()) {
+          return false;
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue: Record<string, unknown> = {};
+
+      for (const [k, v] of Object.entries(value)) {
+        try {
+          currentField.push(k);
+          const key = keyType ? keyType.sanitize(k).value : k;
+          // defineProperty so that a "__proto__" key stays an ordinary property
+          Object.defineProperty(newValue, key, {
+            value: valueType.sanitize(v).value,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      const valueString = valueType.toTypeString({
+        ...options,
+        nested: false,
+      });
+      if (keyType) {
+        const keyString = keyType.toTypeString({
+          ...options,
+          nested: false,
+        });
+        // like RecordType, records over a finite set of keys may omit some
+        let result = `Record<${keyString}, ${valueString}>`;
+        if (keyString !== "string") {
+          result = `Partial<${result}>`;
+        }
+        return options.readonly ? `Readonly<${result}>` : result;
+      }
+      return `{ ${
+        options.readonly ? "readonly " : ""
+      }[key: string]: ${valueString}; }`;
+    },
+    toJSONSchema(context) {
+      return {
+        type: "object",
+        ...(keyType ? { propertyNames: keyType.toJSONSchema(context) } : {}),
+        additionalProperties: valueType.toJSONSchema(context),
+      };
+    },
+    compile(context, value, result, path) {
+      const key = context.variable();
+      const property = context.variable();
+      const entryResult = context.variable();
+      const keyCheck = keyType
+        ? context.check(keyType, key, entryResult, [...path, key])
+        : "";
+      return `if (!(${value} instanceof Object) || ${value} instanceof Array) {
+  ${compileInvalidType(context, path, value, "object")}
+  ${result} = false;
+} else {
+  for (const ${key} in ${value}) {
+    if (!Object.hasOwn(${value}, ${key})) {
+      continue;
+    }
+    const ${property} = ${value}[${key}];
+    let ${entryResult} = true;
+    ${keyCheck}
+    if (${entryResult}) {
+      ${context.check(valueType, property, entryResult, [...path, key])}
+    }
+    if (!${entryResult}) {
+      ${result} = false;
+      if (${abortEarlyCode} === true) {
+        break;
+      }
+    }
+  }
+}`;
+    },
+  });
+}
+
+export function map<K, V, KI = K, VI = V>(
+  keyType: TypeChecker<K, KI>,
+  valueType: TypeChecker<V, VI>
+): TypeChecker<Map<K, V>, Map<KI, VI>> {
+  return createTypeChecker({
+    def: { kind: "map", key: keyType, value: valueType },
+    check(value): value is Map<KI, VI> {
+      if (!(value instanceof Map)) {
+        currentErrors?.push(invalidType("Map", value));
+        return false;
+      }
+
+      let good = true;
+      let i = 0;
+      for (const [k, v] of value) {
+        try {
+          currentField.push(i++, "key");
+          if (!keyType.check(k)) {
+            good = false;
+            if (abortEarly() !== false) {
+              return false;
+            }
+          }
+          currentField[currentField.length - 1] = "value";
+          if (!valueType.check(v)) {
+            good = false;
+            if (abortEarly() !== false) {
+              return false;
+            }
+          }
+        } finally {
+          currentField.length -= 2;
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue = new Map<K, V>();
+
+      let i = 0;
+      for (const [k, v] of value) {
+        try {
+          currentField.push(i++, "key");
+          const key = keyType.sanitize(k).value;
+          currentField[currentField.length - 1] = "value";
+          newValue.set(key, valueType.sanitize(v).value);
+        } finally {
+          currentField.length -= 2;
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      return `${
+        options.readonly ? "ReadonlyMap" : "Map"
+      }<${keyType.toTypeString({
+        ...options,
+        nested: false,
+      })}, ${valueType.toTypeString({
+        ...options,
+        nested: false,
+      })}>`;
+    },
+    toJSONSchema(context) {
+      return context.unrepresentable(this.toTypeString({ nested: false }));
+    },
+    compile(context, value, result, path) {
+      const i = context.variable();
+      const index = context.variable();
+      const key = context.variable();
+      const entry = context.variable();
+      const keyResult = context.variable();
+      const entryResult = context.variable();
+      return `if (!(${value} instanceof Map)) {
+  ${compileInvalidType(context, path, value, "Map")}
+  ${result} = false;
+} else {
+  let ${i} = 0;
+  for (const [${key}, ${entry}] of ${value}) {
+    const ${index} = ${i}++;
+    let ${keyResult} = true;
+    ${context.check(keyType, key, keyResult, [...path, index, '"key"'])}
+    if (!${keyResult}) {
+      ${result} = false;
+      if (${abortEarlyCode} !== false) {
+        break;
+      }
+    }
+    let ${entryResult} = true;
+    ${context.check(valueType, entry, entryResult, [...path, index, '"value"'])}
+    if (!${entryResult}) {
+      ${result} = false;
+      if (${abortEarlyCode} !== false) {
+        break;
+      }
+    }
+  }
+}`;
+    },
+  });
+}
+
+export function set<T, I = T>(
+  type: TypeChecker<T, I>
+): TypeChecker<Set<T>, Set<I>> {
+  return createTypeChecker({
+    def: { kind: "set", item: type },
+    check(value): value is Set<I> {
+      if (!(value instanceof Set)) {
+        currentErrors?.push(invalidType("Set", value));
+        return false;
+      }
+
+      let good = true;
+      let i = 0;
+      for (const v of value) {
+        try {
+          currentField.push(i++);
+          if (!type.check(v)) {
+            good = false;
+            if (abortEarly() !== false) {
+              return false;
+            }
+          }
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue = new Set<T>();
+
+      let i = 0;
+      for (const v of value) {
+        try {
+          currentField.push(i++);
+          newValue.add(type.sanitize(v).value);
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      return `${options.readonly ? "ReadonlySet" : "Set"}<${type.toTypeString({
+        ...options,
+        nested: false,
+      })}>`;
+    },
+    toJSONSchema(context) {
+      return context.unrepresentable(this.toTypeString({ nested: false }));
+    },
+    compile(context, value, result, path) {
+      const i = context.variable();
+      const index = context.variable();
+      const item = context.variable();
+      const itemResult = context.variable();
+      return `if (!(${value} instanceof Set)) {
+  ${compileInvalidType(context, path, value, "Set")}
+  ${result} = false;
+} else {
+  let ${i} = 0;
+  for (const ${item} of ${value}) {
+    const ${index} = ${i}++;
+    let ${itemResult} = true;
+    ${context.check(type, item, itemResult, [...path, index])}
+    if (!${itemResult}) {
+      ${result} = false;
+      if (${abortEarlyCode} !== false) {
+        break;
+      }
+    }
+  }
+}`;
+    },
+  });
+}
+
+type LiteralBase = string | number | boolean | null | undefined;
+
+function literalString(arg: LiteralBase): string {
+  if (typeof arg === "string") {
+    return JSON.stringify(arg);
+  } else if (arg === null) {
+    return "null";
+  } else if (arg === undefined) {
+    return "undefined";
+  } else {
+    return String(arg);
+  }
+}
+
+export type LiteralTypeChecker<T extends LiteralBase> = TypeChecker<T> & {
+  value: T;
+};
+export function literal<T extends LiteralBase>(arg: T): LiteralTypeChecker<T> {
+  const checker = createTypeChecker({
+    def: { kind: "literal", value: arg },
+    check(value): value is T {
+      if (value !== arg) {
+        currentErrors?.push(
+          new ParseError(
+            [...currentField],
+            `expected ${this.toTypeString({})}`,
+            "invalid_literal",
+            { expected: [arg], received: typeName(value) }
+          )
+        );
+        return false;
+      }
+
+      return true;
+    },
+    sanitize() {
+      return {
+        __sanitized: true,
+        value: arg,
+      };
+    },
+    toTypeString() {
+      return literalString(arg);
+    },
+    toJSONSchema(context) {
+      if (arg === undefined) {
+        return context.unrepresentable("undefined");
+      }
+      return { const: arg };
+    },
+    compile(context, value, result, path) {
+      return `if (${value} !== ${context.bind(arg)}) {
+  ${context.error(
+    path,
+    JSON.stringify(`expected ${this.toTypeString({})}`),
+    "invalid_literal",
+    `{ expected: [${context.bind(arg)}], received: ${context.bind(
+      typeName
+    )}(${value}) }`
+  )}
+  ${result} = false;
+}`;
+    },
+  });
+  return Object.assign(checker, { value: arg });
+}
+
+type TupleTypes<Tuple extends [...any[]]> = {
+  [Index in keyof Tuple]: TypeOf<Tuple[Index]>;
+} & { length: Tuple["length"] };
+type TupleInputs<Tuple extends [...any[]]> = {
+  [Index in keyof Tuple]: InputOf<Tuple[Index]>;
+} & { length: Tuple["length"] };
+export function tuple<T extends TypeChecker[]>(
+  ...args: T
+): TypeChecker<TupleTypes<T>, TupleInputs<T>> {
+  type Target = TupleTypes<T>;
+  type Input = TupleInputs<T>;
+  return createTypeChecker({
+    def: { kind: "tuple", items: args },
+    check(value): value is Input {
+      if (!(value instanceof Array)) {
+        currentErrors?.push(invalidType("array", value));
+        return false;
+      }
+
+      if (value.length !== args.length) {
+        currentErrors?.push(lengthError(args.length, value.length));
+        return false;
+      }
+
+      let good = true;
+      for (let i = 0; i < args.length; i++) {
+        try {
+          currentField.push(i);
+          const success = args[i]!.check(value[i]);
+          if (!success) {
+            good = false;
+          }
+        } finally {
           currentField.pop();
         }
+        if (!good && abortEarly()) {
+          return false;
+        }
       }
 
       return good;
@@ -462,7 +2369,12 @@ export function tuple<T extends TypeChecker[]>(
       const res = [] as Target;
 
       for (let i = 0; i < args.length; i++) {
-        res.push(args[i]!.sanitize(value[i]).value);
+        try {
+          currentField.push(i);
+          res.push(args[i]!.sanitize(value[i]).value);
+        } finally {
+          currentField.pop();
+        }
       }
 
       return {
@@ -482,7 +2394,53 @@ export function tuple<T extends TypeChecker[]>(
         )
         .join(", ");
       result += "]";
-      return result;
+      if (!options.readonly) {
+        return result;
+      }
+      return options.nested ? `(readonly ${result})` : `readonly ${result}`;
+    },
+    toJSONSchema(context) {
+      return {
+        type: "array",
+        ...(args.length > 0
+          ? { prefixItems: args.map((type) => type.toJSONSchema(context)) }
+          : {}),
+        items: false,
+        minItems: args.length,
+        maxItems: args.length,
+      };
+    },
+    compile(context, value, result, path) {
+      return `if (!(${value} instanceof Array)) {
+  ${compileInvalidType(context, path, value, "array")}
+  ${result} = false;
+} else if (${value}.length < ${args.length}) {
+  ${context.error(
+    path,
+    JSON.stringify("expected array of length " + args.length),
+    "too_small",
+    `{ type: "array", minimum: ${args.length}, received: ${value}.length }`
+  )}
+  ${result} = false;
+} else if (${value}.length > ${args.length}) {
+  ${context.error(
+    path,
+    JSON.stringify("expected array of length " + args.length),
+    "too_big",
+    `{ type: "array", maximum: ${args.length}, received: ${value}.length }`
+  )}
+  ${result} = false;
+} else {
+  ${compileAll(
+    context,
+    result,
+    args.map((type, i) => (good) => {
+      const item = context.variable();
+      return `const ${item} = ${value}[${i}];
+${context.check(type, item, good, [...path, String(i)])}`;
+    })
+  )}
+}`;
     },
   });
 }
@@ -494,29 +2452,91 @@ export { _enum as enum };
 
 export function or<T extends TypeChecker[]>(
   ...args: T
-): TypeChecker<TypeOf<T[number]>> {
+): TypeChecker<TypeOf<T[number]>, InputOf<T[number]>> {
   type Target = TypeOf<T[number]>;
-  return createTypeChecker({
-    check(value): value is Target {
+  type Input = InputOf<T[number]>;
+  const literals = unionLiterals(args);
+  const unionError = (value: unknown) => {
+    const expected = checker.toTypeString({});
+    return literals
+      ? new ParseError(
+          [...currentField],
+          `expected ${expected}`,
+          "invalid_literal",
+          { expected: literals, received: typeName(value) }
+        )
+      : new ParseError(
+          [...currentField],
+          `expected ${expected}`,
+          "invalid_union",
+          { expected, received: typeName(value) }
+        );
+  };
+  const checker: TypeChecker<Target, Input> = createTypeChecker({
+    def: { kind: "union", options: args },
+    check(value): value is Input {
+      const pending = asyncRefinements.pending;
+      // the async refinements of each branch that passed, but has to wait for
+      // them; the later branches are still tried in case they fail
+      const tentative: PendingRefinement[][] = [];
+      let matched = false;
       for (const type of args) {
         const len = currentErrors?.length ?? 0;
+        const start = pending instanceof Array ? pending.length : 0;
         if (type.check(value)) {
-          return true;
+          if (!(pending instanceof Array) || pending.length === start) {
+            matched = true;
+            break;
+          }
+          tentative.push(pending.splice(start));
+          continue;
         }
         while (currentErrors && currentErrors.length > len) {
           currentErrors.pop();
         }
+        // neither are the async refinements of a failed alternative run
+        if (pending instanceof Array) {
+          pending.length = start;
+        }
       }
 
-      currentErrors?.push(
-        new ParseError([...currentField], `expected ${this.toTypeString({})}`)
-      );
+      if (pending instanceof Array && tentative.length > 0) {
+        if (tentative.length === 1 && !matched) {
+          // nothing to fall back to, so the refinements report their own
+          // errors
+          pending.push(...tentative[0]!);
+        } else {
+          // the first branch whose refinements pass is the one sanitized
+          const error = matched ? undefined : unionError(value);
+          pending.push({
+            field: [...currentField],
+            after: [],
+            checker,
+            value,
+            async run(_signal, run) {
+              for (const refinements of tentative) {
+                const passed = await Promise.all(refinements.map(run));
+                if (passed.every(Boolean)) {
+                  return undefined;
+                }
+              }
+              return error;
+            },
+          });
+        }
+        return true;
+      }
+      if (matched) {
+        return true;
+      }
+
+      currentErrors?.push(unionError(value));
       return false;
     },
     sanitize(value) {
       const obj: any = {};
       for (const type of args) {
-        if (type.check(value)) {
+        if (checkSilently(type, value)) {
           const sanitized = type.sanitize(value).value;
           if (sanitized instanceof Object && sanitized.constructor === Object) {
             for (const [k, v] of Object.entries(sanitized)) {
@@ -554,40 +2574,209 @@ export function or<T extends TypeChecker[]>(
       }
       return result;
     },
+    toJSONSchema(context) {
+      const schemas = args.map((type) => type.toJSONSchema(context));
+      if (schemas.every((schema) => Object.keys(schema).join() === "const")) {
+        return { enum: schemas.map((schema) => schema.const) };
+      }
+      return { anyOf: schemas };
+    },
+    compile(context, value, result, path) {
+      // each branch is only tried once the previous ones have failed, with
+      // their errors and async refinements discarded; while queueing async
+      // refinements, which may fall back to later branches, the union is
+      // checked by its regular implementation
+      const length = context.variable();
+      const async = context.bind(asyncRefinements);
+      const expected = this.toTypeString({});
+      const received = `${context.bind(typeName)}(${value})`;
+      let code = `${
+        literals
+          ? context.error(
+              path,
+              JSON.stringify(`expected ${expected}`),
+              "invalid_literal",
+              `{ expected: [...${context.bind(
+                literals
+              )}], received: ${received} }`
+            )
+          : context.error(
+              path,
+              JSON.stringify(`expected ${expected}`),
+              "invalid_union",
+              `{ expected: ${JSON.stringify(expected)}, received: ${received} }`
+            )
+      }
+${result} = false;`;
+      for (const type of [...args].reverse()) {
+        const branchResult = context.variable();
+        code = `let ${branchResult} = true;
+${context.check(type, value, branchResult, path)}
+if (!${branchResult}) {
+  if (e !== undefined) {
+    e.length = ${length};
+  }
+  ${code}
+}`;
+      }
+      return `if (${async}.pending instanceof Array) {
+  ${compileCall(context, this, value, result, path)}
+} else {
+  const ${length} = e === undefined ? 0 : e.length;
+  ${code}
+}`;
+    },
   });
+  return checker;
 }
 
-export function and<T extends TypeChecker[]>(
-  ...args: T
-): TypeChecker<
-  TypeOfDefaultTop<T[0]> &
-    TypeOfDefaultTop<T[1]> &
-    TypeOfDefaultTop<T[2]> &
-    TypeOfDefaultTop<T[3]> &
-    TypeOfDefaultTop<T[4]> &
-    TypeOfDefaultTop<T[5]> &
-    TypeOfDefaultTop<T[6]> &
-    TypeOfDefaultTop<T[7]> &
-    TypeOfDefaultTop<T[8]> &
-    TypeOfDefaultTop<T[9]>
-> {
-  type Target = TypeOfDefaultTop<T[0]> &
-    TypeOfDefaultTop<T[1]> &
-    TypeOfDefaultTop<T[2]> &
-    TypeOfDefaultTop<T[3]> &
-    TypeOfDefaultTop<T[4]> &
-    TypeOfDefaultTop<T[5]> &
-    TypeOfDefaultTop<T[6]> &
-    TypeOfDefaultTop<T[7]> &
-    TypeOfDefaultTop<T[8]> &
-    TypeOfDefaultTop<T[9]>;
-  return createTypeChecker({
-    check(value): value is Target {
-      let good = true;
-      for (const type of args) {
-        // this will naturally populate currentErrors appropriately
-        if (!type.check(value)) {
+export function discriminatedUnion<
+  K extends string,
+  T extends (TypeChecker & {
+    shape: { [_ in K]: TypeChecker & { value: LiteralBase } };
+  })[]
+>(tagKey: K, ...args: T): TypeChecker<TypeOf<T[number]>, InputOf<T[number]>> {
+  type Input = InputOf<T[number]>;
+  const branches = new Map<unknown, T[number]>();
+  for (const type of args) {
+    const tag = type.shape[tagKey];
+    if (!isTypeChecker(tag) || !("value" in tag)) {
+      throw new Error(
+        `discriminated union member must have a literal "${tagKey}" field`
+      );
+    }
+    if (branches.has(tag.value)) {
+      throw new Error(
+        `duplicate discriminator value ${tag.toTypeString()} for "${tagKey}"`
+      );
+    }
+    branches.set(tag.value, type);
+  }
+
+  return createTypeChecker({
+    def: { kind: "discriminatedUnion", key: tagKey, options: args },
+    check(value): value is Input {
+      if (!(value instanceof Object)) {
+        currentErrors?.push(invalidType("object", value));
+        return false;
+      }
+
+      const type = branches.get((value as any)[tagKey]);
+      if (type === undefined) {
+        currentErrors?.push(
+          new ParseError(
+            [...currentField, tagKey],
+            `unknown tag, expected ${args
+              .map((type) => type.shape[tagKey].toTypeString())
+              .join(" | ")}`,
+            "invalid_union_discriminator",
+            { key: tagKey, expected: [...branches.keys()] as LiteralBase[] }
+          )
+        );
+        return false;
+      }
+
+      return type.check(value);
+    },
+    sanitize(value) {
+      return branches.get((value as any)[tagKey])!.sanitize(value);
+    },
+    toTypeString(options) {
+      let result = "";
+      if (options.nested) {
+        result += "(";
+      }
+      result += args
+        .map((type) =>
+          type.toTypeString({
+            ...options,
+            nested: true,
+          })
+        )
+        .join(" | ");
+      if (options.nested) {
+        result += ")";
+      }
+      return result;
+    },
+    toJSONSchema(context) {
+      return { oneOf: args.map((type) => type.toJSONSchema(context)) };
+    },
+    compile(context, value, result, path) {
+      const tag = context.variable();
+      let code = `if (!(${value} instanceof Object)) {
+  ${compileInvalidType(context, path, value, "object")}
+  ${result} = false;
+} else {
+  const ${tag} = ${value}[${JSON.stringify(tagKey)}];
+  `;
+      for (const [tagValue, type] of branches) {
+        // branches are looked up by SameValueZero, under which NaN is found
+        const matches = Number.isNaN(tagValue)
+          ? `${tag} !== ${tag}`
+          : `${tag} === ${context.bind(tagValue)}`;
+        code += `if (${matches}) {
+    ${context.check(type, value, result, path)}
+  } else `;
+      }
+      return (
+        code +
+        `{
+    ${context.error(
+      [...path, JSON.stringify(tagKey)],
+      JSON.stringify(
+        `unknown tag, expected ${args
+          .map((type) => type.shape[tagKey].toTypeString())
+          .join(" | ")}`
+      ),
+      "invalid_union_discriminator",
+      `{ key: ${JSON.stringify(tagKey)}, expected: [...${context.bind([
+        ...branches.keys(),
+      ])}] }`
+    )}
+    ${result} = false;
+  }
+}`
+      );
+    },
+  });
+}
+
+type AndType<T extends TypeChecker[]> = TypeOfDefaultTop<T[0]> &
+  TypeOfDefaultTop<T[1]> &
+  TypeOfDefaultTop<T[2]> &
+  TypeOfDefaultTop<T[3]> &
+  TypeOfDefaultTop<T[4]> &
+  TypeOfDefaultTop<T[5]> &
+  TypeOfDefaultTop<T[6]> &
+  TypeOfDefaultTop<T[7]> &
+  TypeOfDefaultTop<T[8]> &
+  TypeOfDefaultTop<T[9]>;
+type AndInput<T extends TypeChecker[]> = InputOfDefaultTop<T[0]> &
+  InputOfDefaultTop<T[1]> &
+  InputOfDefaultTop<T[2]> &
+  InputOfDefaultTop<T[3]> &
+  InputOfDefaultTop<T[4]> &
+  InputOfDefaultTop<T[5]> &
+  InputOfDefaultTop<T[6]> &
+  InputOfDefaultTop<T[7]> &
+  InputOfDefaultTop<T[8]> &
+  InputOfDefaultTop<T[9]>;
+export function and<T extends TypeChecker[]>(
+  ...args: T
+): TypeChecker<AndType<T>, AndInput<T>> {
+  type Input = AndInput<T>;
+  return createTypeChecker({
+    def: { kind: "intersection", types: args },
+    check(value): value is Input {
+      let good = true;
+      for (const type of args) {
+        // this will naturally populate currentErrors appropriately
+        if (!type.check(value)) {
           good = false;
+          if (abortEarly()) {
+            return false;
+          }
         }
       }
 
@@ -596,7 +2785,7 @@ export function and<T extends TypeChecker[]>(
     sanitize(value) {
       const obj: any = {};
       for (const type of args) {
-        if (type.check(value)) {
+        if (checkSilently(type, value)) {
           const sanitized = type.sanitize(value).value;
           if (sanitized instanceof Object && sanitized.constructor === Object) {
             for (const [k, v] of Object.entries(sanitized)) {
@@ -634,16 +2823,25 @@ export function and<T extends TypeChecker[]>(
       }
       return result;
     },
+    toJSONSchema(context) {
+      return { allOf: args.map((type) => type.toJSONSchema(context)) };
+    },
+    compile(context, value, result, path) {
+      return compileAll(
+        context,
+        result,
+        args.map((type) => (good) => context.check(type, value, good, path))
+      );
+    },
   });
 }
 
-function primitive<T>(name: string): TypeChecker<T> {
+function primitive<T>(name: PrimitiveName): TypeChecker<T> {
   return createTypeChecker({
+    def: { kind: "primitive", name },
     check(value): value is T {
       if (typeof value !== name) {
-        currentErrors?.push(
-          new ParseError([...currentField], `expected ${name}`)
-        );
+        currentErrors?.push(invalidType(name, value));
         return false;
       }
 
@@ -655,17 +2853,416 @@ function primitive<T>(name: string): TypeChecker<T> {
     toTypeString() {
       return name;
     },
+    toJSONSchema(context) {
+      if (name === "bigint") {
+        return context.unrepresentable(name);
+      }
+      return { type: name };
+    },
+    compile(context, value, result, path) {
+      return `if (typeof ${value} !== ${JSON.stringify(name)}) {
+  ${compileInvalidType(context, path, value, name)}
+  ${result} = false;
+}`;
+    },
+  });
+}
+
+export type NumberTypeChecker = TypeChecker<number> & {
+  checks: NumberCheck[];
+  int(message?: string): NumberTypeChecker;
+  finite(message?: string): NumberTypeChecker;
+  // at least `value`
+  min(value: number, message?: string): NumberTypeChecker;
+  // at most `value`
+  max(value: number, message?: string): NumberTypeChecker;
+  gt(value: number, message?: string): NumberTypeChecker;
+  lt(value: number, message?: string): NumberTypeChecker;
+  positive(message?: string): NumberTypeChecker;
+  nonnegative(message?: string): NumberTypeChecker;
+  multipleOf(value: number, message?: string): NumberTypeChecker;
+  // an integer that can be represented exactly
+  safe(message?: string): NumberTypeChecker;
+};
+
+function passesNumberCheck(check: NumberCheck, value: number): boolean {
+  switch (check.kind) {
+    case "int":
+      return Number.isInteger(value);
+    case "finite":
+      return Number.isFinite(value);
+    case "min":
+      return check.inclusive ? value >= check.value : value > check.value;
+    case "max":
+      return check.inclusive ? value <= check.value : value < check.value;
+    case "multipleOf":
+      return isMultipleOf(value, check.value);
+  }
+}
+
+// whether `value / step` is an integer, up to the rounding error of decimal
+// steps such as 0.1, which binary floating point cannot represent exactly
+function isMultipleOf(value: number, step: number): boolean {
+  const quotient = value / step;
+  return (
+    Number.isFinite(quotient) &&
+    Math.abs(quotient - Math.round(quotient)) <=
+      8 * Number.EPSILON * Math.max(1, Math.abs(quotient))
+  );
+}
+
+// the error for `received` failing `check`; a message given to the constraint
+// replaces the default one, and is kept by message formatters
+function numberCheckError(
+  check: NumberCheck,
+  field: FieldPath,
+  received: number
+): ParseError {
+  const error = defaultNumberCheckError(check, field, received);
+  if (check.message !== undefined) {
+    error.message = check.message;
+    error.explicitMessage = true;
+  }
+  return error;
+}
+
+function defaultNumberCheckError(
+  check: NumberCheck,
+  field: FieldPath,
+  received: number
+): ParseError {
+  switch (check.kind) {
+    case "int":
+      return new ParseError(field, "expected integer", "not_integer", {
+        received,
+      });
+    case "finite":
+      return new ParseError(field, "expected finite number", "not_finite", {
+        received,
+      });
+    case "min":
+      return new ParseError(
+        field,
+        `expected number ${check.inclusive ? ">=" : ">"} ${check.value}`,
+        "too_small",
+        {
+          type: "number",
+          minimum: check.value,
+          inclusive: check.inclusive,
+          received,
+        }
+      );
+    case "max":
+      return new ParseError(
+        field,
+        `expected number ${check.inclusive ? "<=" : "<"} ${check.value}`,
+        "too_big",
+        {
+          type: "number",
+          maximum: check.value,
+          inclusive: check.inclusive,
+          received,
+        }
+      );
+    case "multipleOf":
+      return new ParseError(
+        field,
+        `expected multiple of ${check.value}`,
+        "not_multiple_of",
+        { multipleOf: check.value, received }
+      );
+  }
+}
+
+function numberChecker(checks: NumberCheck[]): NumberTypeChecker {
+  const checker = createTypeChecker<number>({
+    def: { kind: "primitive", name: "number", checks },
+    check(value): value is number {
+      if (typeof value !== "number") {
+        currentErrors?.push(invalidType("number", value));
+        return false;
+      }
+
+      // like a chain of refinements, the checks stop at the first failure
+      // unless every error is reported
+      let good = true;
+      for (const check of checks) {
+        if (!passesNumberCheck(check, value)) {
+          currentErrors?.push(
+            numberCheckError(check, [...currentField], value)
+          );
+          good = false;
+          if (abortEarly() !== false) {
+            break;
+          }
+        }
+      }
+      return good;
+    },
+    sanitize(value) {
+      return { __sanitized: true, value };
+    },
+    toTypeString() {
+      return "number";
+    },
+    toJSONSchema() {
+      const schema: JSONSchema = { type: "number" };
+      // the tightest bounds are kept
+      const tighten = (keyword: string, value: number, lower: boolean) => {
+        const current = schema[keyword];
+        if (
+          typeof current !== "number" ||
+          (lower ? value > current : value < current)
+        ) {
+          schema[keyword] = value;
+        }
+      };
+      for (const check of checks) {
+        if (check.kind === "int") {
+          schema.type = "integer";
+        } else if (check.kind === "min") {
+          tighten(
+            check.inclusive ? "minimum" : "exclusiveMinimum",
+            check.value,
+            true
+          );
+        } else if (check.kind === "max") {
+          tighten(
+            check.inclusive ? "maximum" : "exclusiveMaximum",
+            check.value,
+            false
+          );
+        } else if (check.kind === "multipleOf") {
+          schema.multipleOf = check.value;
+        }
+      }
+      return schema;
+    },
+    compile(context, value, result, path) {
+      const good = context.variable();
+      const passes = context.bind(passesNumberCheck);
+      const error = context.bind(numberCheckError);
+      const field = [`...${context.bind(currentField)}`, ...path].join(", ");
+      return `if (typeof ${value} !== "number") {
+  ${compileInvalidType(context, path, value, "number")}
+  ${result} = false;
+} else {
+  let ${good} = true;
+  ${checks
+    .map((check) => {
+      const bound = context.bind(check);
+      return `if ((${good} || ${abortEarlyCode} === false) && !${passes}(${bound}, ${value})) {
+    if (e !== undefined) {
+      e.push(${error}(${bound}, [${field}], ${value}));
+    }
+    ${good} = false;
+  }`;
+    })
+    .join("\n  ")}
+  if (!${good}) {
+    ${result} = false;
+  }
+}`;
+    },
+  });
+
+  const constrain = (check: NumberCheck, message: string | undefined) =>
+    numberChecker([
+      ...checks,
+      message === undefined ? check : { ...check, message },
+    ]);
+  return Object.assign(checker, {
+    checks,
+    int(message?: string) {
+      return constrain({ kind: "int" }, message);
+    },
+    finite(message?: string) {
+      return constrain({ kind: "finite" }, message);
+    },
+    min(value: number, message?: string) {
+      return constrain({ kind: "min", value, inclusive: true }, message);
+    },
+    max(value: number, message?: string) {
+      return constrain({ kind: "max", value, inclusive: true }, message);
+    },
+    gt(value: number, message?: string) {
+      return constrain({ kind: "min", value, inclusive: false }, message);
+    },
+    lt(value: number, message?: string) {
+      return constrain({ kind: "max", value, inclusive: false }, message);
+    },
+    positive(message?: string) {
+      return constrain({ kind: "min", value: 0, inclusive: false }, message);
+    },
+    nonnegative(message?: string) {
+      return constrain({ kind: "min", value: 0, inclusive: true }, message);
+    },
+    multipleOf(value: number, message?: string) {
+      if (!(value > 0 && Number.isFinite(value))) {
+        throw new Error("multipleOf must be a positive finite number");
+      }
+      return constrain({ kind: "multipleOf", value }, message);
+    },
+    safe(message?: string) {
+      return constrain({ kind: "int" }, message)
+        .min(Number.MIN_SAFE_INTEGER, message)
+        .max(Number.MAX_SAFE_INTEGER, message);
+    },
   });
 }
 
-export const number: TypeChecker<number> = primitive<number>("number");
+export const number: NumberTypeChecker = numberChecker([]);
 export const string: TypeChecker<string> = primitive<string>("string");
 export const boolean: TypeChecker<boolean> = primitive<boolean>("boolean");
 
+export const bigint: TypeChecker<bigint> = primitive<bigint>("bigint");
+
+const coercionFailed = Symbol("coercionFailed");
+
+function coercing<T, I>(
+  name: CoercedName,
+  inputName: string,
+  jsonTypes: string[],
+  convert: (value: unknown) => T | typeof coercionFailed
+): TypeChecker<T, I> {
+  return createTypeChecker({
+    def: { kind: "coerce", to: name },
+    check(value): value is I {
+      if (convert(value) === coercionFailed) {
+        currentErrors?.push(
+          typeof value === "string"
+            ? new ParseError(
+                [...currentField],
+                `cannot convert ${JSON.stringify(value)} to ${name}`,
+                "invalid_conversion",
+                { expected: name, value }
+              )
+            : invalidType(name, value)
+        );
+        return false;
+      }
+
+      return true;
+    },
+    sanitize(value) {
+      return { __sanitized: true, value: convert(value) as T };
+    },
+    toTypeString(options) {
+      return options.nested ? `(${inputName})` : inputName;
+    },
+    toJSONSchema() {
+      return { type: jsonTypes };
+    },
+  });
+}
+
+const decimalPattern = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const integerPattern = /^[+-]?\d+$/;
+// ISO 8601 dates, with an optional time and offset, such as "2024-05-01",
+// "2024-05-01T12:30Z" and "2024-05-01 12:30:00.5+02:00"
+const isoDatePattern =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// the date written in ISO 8601 format, if `value` is one that exists; Date
+// alone accepts other formats, and rolls over days such as February 30
+function parseISODate(value: string): Date | undefined {
+  const match = isoDatePattern.exec(value);
+  if (match === null) {
+    return undefined;
+  }
+  const [year, month, day, hour = 0, minute = 0, second = 0] = match
+    .slice(1, 7)
+    .map((part) => (part === undefined ? undefined : Number(part)));
+  const leap = year! % 4 === 0 && (year! % 100 !== 0 || year! % 400 === 0);
+  const days =
+    month === 2 ? (leap ? 29 : 28) : [4, 6, 9, 11].includes(month!) ? 30 : 31;
+  if (
+    month! < 1 ||
+    month! > 12 ||
+    day! < 1 ||
+    day! > days ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export const coerce = {
+  number: coercing<number, number | string>(
+    "number",
+    "number | string",
+    ["number", "string"],
+    (value) => {
+      if (typeof value === "string" && decimalPattern.test(value.trim())) {
+        // strings such as "1e400" overflow, while "Infinity" is rejected
+        const number = Number(value);
+        return Number.isFinite(number) ? number : coercionFailed;
+      } else if (typeof value === "number" && !Number.isNaN(value)) {
+        return value;
+      }
+      return coercionFailed;
+    }
+  ),
+  boolean: coercing<boolean, boolean | string | number>(
+    "boolean",
+    "boolean | string | number",
+    ["boolean", "string", "number"],
+    (value) => {
+      if (typeof value === "boolean") {
+        return value;
+      } else if (value === "true" || value === "1" || value === 1) {
+        return true;
+      } else if (value === "false" || value === "0" || value === 0) {
+        return false;
+      }
+      return coercionFailed;
+    }
+  ),
+  bigint: coercing<bigint, bigint | string | number>(
+    "bigint",
+    "bigint | string | number",
+    ["integer", "string"],
+    (value) => {
+      if (typeof value === "bigint") {
+        return value;
+      } else if (
+        typeof value === "string" &&
+        integerPattern.test(value.trim())
+      ) {
+        return BigInt(value.trim());
+      } else if (typeof value === "number" && Number.isInteger(value)) {
+        return BigInt(value);
+      }
+      return coercionFailed;
+    }
+  ),
+  date: coercing<Date, Date | string | number>(
+    "Date",
+    "Date | string | number",
+    ["string", "number"],
+    (value) => {
+      if (typeof value === "string") {
+        return parseISODate(value.trim()) ?? coercionFailed;
+      } else if (value instanceof Date || typeof value === "number") {
+        const date = new Date(value);
+        if (!Number.isNaN(date.getTime())) {
+          return date;
+        }
+      }
+      return coercionFailed;
+    }
+  ),
+};
+
 const _null: TypeChecker<null> = createTypeChecker({
+  def: { kind: "null" },
   check(value): value is null {
     if (value !== null) {
-      currentErrors?.push(new ParseError([...currentField], "expected null"));
+      currentErrors?.push(invalidType("null", value));
       return false;
     }
 
@@ -677,15 +3274,23 @@ const _null: TypeChecker<null> = createTypeChecker({
   toTypeString() {
     return "null";
   },
+  toJSONSchema() {
+    return { type: "null" };
+  },
+  compile(context, value, result, path) {
+    return `if (${value} !== null) {
+  ${compileInvalidType(context, path, value, "null")}
+  ${result} = false;
+}`;
+  },
 });
 export { _null as null };
 
 const _undefined: TypeChecker<void | undefined> = createTypeChecker({
+  def: { kind: "undefined" },
   check(value): value is void | undefined {
     if (value !== undefined) {
-      currentErrors?.push(
-        new ParseError([...currentField], "expected undefined")
-      );
+      currentErrors?.push(invalidType("undefined", value));
       return false;
     }
 
@@ -697,14 +3302,26 @@ const _undefined: TypeChecker<void | undefined> = createTypeChecker({
   toTypeString() {
     return "undefined";
   },
+  toJSONSchema(context) {
+    return context.unrepresentable("undefined");
+  },
+  compile(context, value, result, path) {
+    return `if (${value} !== undefined) {
+  ${compileInvalidType(context, path, value, "undefined")}
+  ${result} = false;
+}`;
+  },
 });
 export { _undefined as undefined };
 
-export function nullable<T>(type: TypeChecker<T>): TypeChecker<T | null> {
+export function nullable<T, I = T>(
+  type: TypeChecker<T, I>
+): TypeChecker<T | null, I | null> {
   return or(type, _null);
 }
 
 export const any: TypeChecker<any> = createTypeChecker({
+  def: { kind: "any" },
   check(value): value is any {
     return true;
   },
@@ -714,9 +3331,16 @@ export const any: TypeChecker<any> = createTypeChecker({
   toTypeString() {
     return "any";
   },
+  toJSONSchema() {
+    return {};
+  },
+  compile() {
+    return "";
+  },
 });
 
 export const unknown: TypeChecker<unknown> = createTypeChecker({
+  def: { kind: "unknown" },
   check(value): value is unknown {
     return true;
   },
@@ -726,9 +3350,16 @@ export const unknown: TypeChecker<unknown> = createTypeChecker({
   toTypeString() {
     return "unknown";
   },
+  toJSONSchema() {
+    return {};
+  },
+  compile() {
+    return "";
+  },
 });
 
 export const never: TypeChecker<never> = createTypeChecker({
+  def: { kind: "never" },
   check(value): value is never {
     return false;
   },
@@ -738,4 +3369,1713 @@ export const never: TypeChecker<never> = createTypeChecker({
   toTypeString() {
     return "never";
   },
+  toJSONSchema() {
+    return { not: {} };
+  },
+  compile(_context, _value, result) {
+    return `${result} = false;`;
+  },
 });
+
+export type JSONSchemaOptions = {
+  // what to emit for types that JSON Schema cannot describe, such as classes
+  // and nominal types without `withJSONSchema`
+  unrepresentable?: "throw" | "any";
+};
+
+export function toJSONSchema<T, I>(
+  checker: TypeChecker<T, I>,
+  options: JSONSchemaOptions = {}
+): JSONSchema {
+  const { unrepresentable = "throw" } = options;
+  const context: JSONSchemaContext = {
+    unrepresentable(description) {
+      if (unrepresentable === "any") {
+        return {};
+      }
+      throw new Error(`${description} cannot be represented in JSON Schema`);
+    },
+    names: new Map(),
+    defs: {},
+  };
+
+  const schema = checker.toJSONSchema(context);
+  return {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    ...schema,
+    ...(Object.keys(context.defs).length > 0 ? { $defs: context.defs } : {}),
+  };
+}
+
+type DeclarationContext = {
+  // names of the checkers that are declared as type aliases
+  names: Map<TypeChecker<any, any>, string>;
+  // the checker whose declaration is being generated, which expands instead
+  // of rendering as its own name
+  declaring: TypeChecker<any, any> | undefined;
+  declare(checker: TypeChecker<any, any>, name: string): string;
+  unrepresentable(description: string): string;
+};
+
+let currentDeclarations: DeclarationContext | undefined;
+
+const reservedTypeNames = new Set([
+  "any",
+  "bigint",
+  "boolean",
+  "never",
+  "null",
+  "number",
+  "object",
+  "string",
+  "symbol",
+  "undefined",
+  "unknown",
+  "void",
+]);
+
+function isTypeName(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name) && !reservedTypeNames.has(name);
+}
+
+export type TypeScriptOptions = {
+  // mark all properties, arrays and collections as read-only
+  readonly?: boolean;
+  // what to emit for types that have no TypeScript declaration, such as
+  // classes and nominal types
+  unrepresentable?: "throw" | "unknown";
+};
+
+export function toTypeScript(
+  checkers: { [name: string]: TypeChecker<any, any> },
+  options: TypeScriptOptions = {}
+): string {
+  const { readonly = false, unrepresentable = "throw" } = options;
+  const declarations: [string, TypeChecker<any, any>][] = [];
+  const aliases: [string, string][] = [];
+  const context: DeclarationContext = {
+    names: new Map(),
+    declaring: undefined,
+    declare(checker, name) {
+      if (!isTypeName(name)) {
+        throw new Error(`invalid type name ${JSON.stringify(name)}`);
+      }
+      let typeName = name;
+      for (
+        let i = 2;
+        declarations.some(([other]) => other === typeName) ||
+        aliases.some(([other]) => other === typeName);
+        i++
+      ) {
+        typeName = `${name}${i}`;
+      }
+      context.names.set(checker, typeName);
+      declarations.push([typeName, checker]);
+      return typeName;
+    },
+    unrepresentable(description) {
+      if (unrepresentable === "unknown") {
+        return "unknown";
+      }
+      throw new Error(
+        `${description} cannot be represented in a TypeScript declaration`
+      );
+    },
+  };
+
+  for (const [name, checker] of Object.entries(checkers)) {
+    const existing = context.names.get(checker);
+    if (existing === undefined) {
+      context.declare(checker, name);
+    } else if (isTypeName(name)) {
+      aliases.push([name, existing]);
+    } else {
+      throw new Error(`invalid type name ${JSON.stringify(name)}`);
+    }
+  }
+
+  const lines: string[] = [];
+  const save = currentDeclarations;
+  currentDeclarations = context;
+  try {
+    // lazy checkers discovered along the way are appended to `declarations`
+    for (let i = 0; i < declarations.length; i++) {
+      const [name, checker] = declarations[i]!;
+      context.declaring = checker;
+      lines.push(
+        `export type ${name} = ${checker.toTypeString({ readonly })};`
+      );
+    }
+  } finally {
+    currentDeclarations = save;
+  }
+  for (const [name, target] of aliases) {
+    lines.push(`export type ${name} = ${target};`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// generated code can refer to `e`, the list that errors are reported to if
+// any, `a`, the abortEarly parse option, and `m`, the maxErrors parse option
+export type CompileContext = {
+  // makes a runtime value available to the generated code, returning the
+  // name of the variable that holds it
+  bind(value: unknown): string;
+  // returns a fresh variable name
+  variable(): string;
+  // generates code that checks `value` against another checker
+  check(
+    type: TypeChecker<any, any>,
+    value: string,
+    result: string,
+    path: string[]
+  ): string;
+  // generates code that reports the error message computed by the expression
+  // `message` at `path`, relative to the current field, with the parameters
+  // computed by the expression `params`
+  error(
+    path: string[],
+    message: string,
+    code: ParseErrorCode,
+    params: string
+  ): string;
+  // declares a function of `(value, e, a, m)` that is generated once per key,
+  // returning its name; the body may refer to the function recursively
+  define(key: object, body: (value: string, result: string) => string): string;
+};
+
+// the abortEarly option in generated code, like abortEarly()
+const abortEarlyCode = "(e !== undefined && e.length > m ? true : a)";
+
+// generates code reporting that `value` is not of the `expected` type
+function compileInvalidType(
+  context: CompileContext,
+  path: string[],
+  value: string,
+  expected: string
+) {
+  return context.error(
+    path,
+    JSON.stringify(`expected ${expected}`),
+    "invalid_type",
+    `{ expected: ${JSON.stringify(expected)}, received: ${context.bind(
+      typeName
+    )}(${value}) }`
+  );
+}
+
+// generates code running `code` with `path` pushed onto the current field,
+// for calls into code that reports errors relative to it
+function withPath(context: CompileContext, path: string[], code: string) {
+  if (path.length === 0) {
+    return code;
+  }
+  const field = context.bind(currentField);
+  return `${field}.push(${path.join(", ")});
+try {
+  ${code}
+} finally {
+  ${field}.length -= ${path.length};
+}`;
+}
+
+// generates code running each of `checks` in turn, which stops after the first
+// failure when the abortEarly option is set
+function compileAll(
+  context: CompileContext,
+  result: string,
+  checks: ((result: string) => string)[]
+): string {
+  const good = context.variable();
+  const block = context.variable();
+  return `let ${good} = true;
+${block}: {
+  ${checks
+    .map(
+      (check) => `${check(good)}
+  if (!${good} && ${abortEarlyCode} === true) {
+    break ${block};
+  }`
+    )
+    .join("\n  ")}
+}
+if (!${good}) {
+  ${result} = false;
+}`;
+}
+
+function compileBase(
+  context: CompileContext,
+  base: TypeCheckerBase<any, any>,
+  value: string,
+  result: string,
+  path: string[]
+): string {
+  if (base.compile) {
+    return base.compile(context, value, result, path);
+  }
+  return compileCall(context, base, value, result, path);
+}
+
+// generates code that checks a value with the interpreted `check` of `base`
+function compileCall(
+  context: CompileContext,
+  base: TypeCheckerBase<any, any>,
+  value: string,
+  result: string,
+  path: string[]
+): string {
+  return withPath(
+    context,
+    path,
+    `if (!${context.bind(base)}.check(${value})) {
+  ${result} = false;
+}`
+  );
+}
+
+// checks a value, reporting errors to `errors` if given
+type Validator = (
+  value: unknown,
+  errors: ParseError[] | undefined,
+  abortEarly: boolean | undefined,
+  maxErrors?: number | undefined
+) => boolean;
+
+function compileValidator(base: TypeCheckerBase<any, any>): Validator {
+  const bindings: unknown[] = [];
+  const functions: string[] = [];
+  const defined = new Map<object, string>();
+  let variables = 0;
+
+  const context: CompileContext = {
+    bind(value) {
+      let index = bindings.indexOf(value);
+      if (index === -1) {
+        index = bindings.push(value) - 1;
+      }
+      return `b${index}`;
+    },
+    variable() {
+      return `v${variables++}`;
+    },
+    check(type, value, result, path) {
+      return compileBase(context, bases.get(type) ?? type, value, result, path);
+    },
+    error(path, message, code, params) {
+      const field = context.bind(currentField);
+      const parseError = context.bind(ParseError);
+      return `if (e !== undefined) {
+  e.push(new ${parseError}([${[`...${field}`, ...path].join(
+        ", "
+      )}], ${message}, ${JSON.stringify(code)}, ${params}));
+}`;
+    },
+    define(key, body) {
+      let name = defined.get(key);
+      if (name === undefined) {
+        name = `f${defined.size}`;
+        defined.set(key, name);
+        const value = context.variable();
+        const result = context.variable();
+        functions.push(`function ${name}(${value}, e, a, m) {
+  let ${result} = true;
+  ${body(value, result)}
+  return ${result};
+}`);
+      }
+      return name;
+    },
+  };
+
+  const value = context.variable();
+  const result = context.variable();
+  const body = compileBase(context, base, value, result, []);
+  const source = `${bindings.map((_, i) => `const b${i} = b[${i}];`).join("\n")}
+${functions.join("\n")}
+return function (${value}, e, a, m) {
+  let ${result} = true;
+  ${body}
+  return ${result};
+};`;
+  return new Function("b", source)(bindings) as Validator;
+}
+
+// the properties of particular checkers, such as the shape and helpers of
+// object checkers or the value of literals, are kept; helpers such as extend
+// return uncompiled checkers
+export function compile<C extends TypeChecker<any, any>>(checker: C): C {
+  type I = InputOf<C>;
+  const base = bases.get(checker)!;
+  const validate = compileValidator(base);
+
+  const compiled = createTypeChecker<TypeOf<C>, I>({
+    ...base,
+    check(value): value is I {
+      return validate(
+        value,
+        currentErrors,
+        currentOptions.abortEarly,
+        currentOptions.maxErrors
+      );
+    },
+  });
+  for (const key of Object.keys(checker)) {
+    if (!(key in compiled)) {
+      (compiled as any)[key] = (checker as any)[key];
+    }
+  }
+  return compiled as C;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Array && b instanceof Array) {
+    return a.length === b.length && a.every((v, i) => jsonEqual(v, b[i]));
+  }
+  if (
+    a instanceof Object &&
+    b instanceof Object &&
+    !(a instanceof Array) &&
+    !(b instanceof Array)
+  ) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.hasOwn(b, key) && jsonEqual((a as any)[key], (b as any)[key])
+      )
+    );
+  }
+  return false;
+}
+
+function isLiteralBase(value: unknown): value is LiteralBase {
+  return !(value instanceof Object);
+}
+
+// applies `type` to values of the given JSON type and lets everything else
+// through, the way type-specific keywords behave when "type" is absent
+function whenJSONType(
+  jsonType: string,
+  type: TypeChecker<any>
+): TypeChecker<any> {
+  return createTypeChecker({
+    def: { kind: "jsonType", jsonType, type },
+    check(value): value is any {
+      return typeName(value) !== jsonType || type.check(value);
+    },
+    sanitize(value) {
+      return typeName(value) === jsonType
+        ? type.sanitize(value)
+        : { __sanitized: true, value };
+    },
+    toTypeString() {
+      return "unknown";
+    },
+    toJSONSchema() {
+      return {};
+    },
+  });
+}
+
+// checks an array against JSON Schema "prefixItems" and "items", which unlike
+// tuple() allow arrays shorter than the list of prefix items
+function jsonArray(
+  prefixItems: TypeChecker<any>[],
+  items: TypeChecker<any>
+): TypeChecker<unknown[]> {
+  return createTypeChecker({
+    def: { kind: "jsonArray", prefixItems, items },
+    check(value): value is unknown[] {
+      if (!(value instanceof Array)) {
+        currentErrors?.push(invalidType("array", value));
+        return false;
+      }
+
+      let good = true;
+      for (let i = 0; i < value.length; i++) {
+        try {
+          currentField.push(i);
+          if (!(prefixItems[i] ?? items).check(value[i])) {
+            good = false;
+          }
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue: unknown[] = [];
+
+      for (let i = 0; i < value.length; i++) {
+        try {
+          currentField.push(i);
+          newValue.push((prefixItems[i] ?? items).sanitize(value[i]).value);
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      const rest = items.toTypeString({ ...options, nested: true }) + "[]";
+      const result =
+        prefixItems.length === 0
+          ? rest
+          : `[${prefixItems
+              .map(
+                (type) => `${type.toTypeString({ ...options, nested: true })}?`
+              )
+              .join(", ")}, ...${rest}]`;
+      if (!options.readonly) {
+        return result;
+      }
+      return options.nested ? `(readonly ${result})` : `readonly ${result}`;
+    },
+    toJSONSchema(context) {
+      return {
+        type: "array",
+        ...(prefixItems.length > 0
+          ? {
+              prefixItems: prefixItems.map((type) =>
+                type.toJSONSchema(context)
+              ),
+            }
+          : {}),
+        items: items.toJSONSchema(context),
+      };
+    },
+  });
+}
+
+// checks the properties of an object that are not listed in `known`
+function additionalProperties(
+  known: string[],
+  type: TypeChecker<any>
+): TypeChecker<any> {
+  return createTypeChecker({
+    def: { kind: "additionalProperties", known, type },
+    check(value): value is any {
+      if (!(value instanceof Object)) {
+        return true;
+      }
+
+      let good = true;
+      for (const [key, v] of Object.entries(value)) {
+        if (known.includes(key)) {
+          continue;
+        }
+        try {
+          currentField.push(key);
+          if (!type.check(v)) {
+            good = false;
+          }
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return good;
+    },
+    sanitize(value) {
+      const newValue: { [key: string]: unknown } = {};
+
+      for (const [key, v] of Object.entries(value)) {
+        try {
+          currentField.push(key);
+          Object.defineProperty(newValue, key, {
+            value: known.includes(key) ? v : type.sanitize(v).value,
+            writable: true,
+            enumerable: true,
+            configurable: true,
+          });
+        } finally {
+          currentField.pop();
+        }
+      }
+
+      return {
+        __sanitized: true,
+        value: newValue,
+      };
+    },
+    toTypeString(options) {
+      return `{ ${
+        options.readonly ? "readonly " : ""
+      }[key: string]: ${type.toTypeString({
+        ...options,
+        nested: false,
+      })}; }`;
+    },
+    toJSONSchema(context) {
+      return { additionalProperties: type.toJSONSchema(context) };
+    },
+  });
+}
+
+const definedValue = nominal(
+  (value): value is unknown => value !== undefined,
+  "value"
+);
+
+export function fromJSONSchema(schemaDoc: unknown): TypeChecker<unknown> {
+  const refs = new Map<string, TypeChecker<any>>();
+
+  function resolvePointer(ref: string): unknown {
+    if (!ref.startsWith("#")) {
+      throw new Error(`unsupported $ref ${JSON.stringify(ref)}`);
+    }
+
+    let target: unknown = schemaDoc;
+    const pointer = decodeURIComponent(ref.slice(1));
+    for (const segment of pointer.split("/").slice(1)) {
+      const key = segment.replaceAll("~1", "/").replaceAll("~0", "~");
+      if (!(target instanceof Object) || !Object.hasOwn(target, key)) {
+        throw new Error(`unresolvable $ref ${JSON.stringify(ref)}`);
+      }
+      target = (target as any)[key];
+    }
+    return target;
+  }
+
+  function ref(pointer: string): TypeChecker<any> {
+    let type = refs.get(pointer);
+    if (type === undefined) {
+      const target = resolvePointer(pointer);
+      const name = pointer.split("/").pop() || "Root";
+      type = lazy(() => build(target), name);
+      refs.set(pointer, type);
+    }
+    return type;
+  }
+
+  function constraints<T>(
+    type: TypeChecker<T>,
+    checks: [boolean, (value: T) => boolean, string][]
+  ): TypeChecker<T> {
+    for (const [applies, check, message] of checks) {
+      if (applies) {
+        type = type.refine(check, message);
+      }
+    }
+    return type;
+  }
+
+  function buildString(schema: any): TypeChecker<any> {
+    const pattern =
+      typeof schema.pattern === "string"
+        ? new RegExp(schema.pattern, "u")
+        : undefined;
+    return constraints(string, [
+      [
+        typeof schema.minLength === "number",
+        (s) => [...s].length >= schema.minLength,
+        `expected string of length at least ${schema.minLength}`,
+      ],
+      [
+        typeof schema.maxLength === "number",
+        (s) => [...s].length <= schema.maxLength,
+        `expected string of length at most ${schema.maxLength}`,
+      ],
+      [
+        pattern !== undefined,
+        (s) => pattern!.test(s),
+        `expected string matching ${pattern}`,
+      ],
+    ]);
+  }
+
+  function buildNumber(schema: any, integer: boolean): TypeChecker<any> {
+    let type = integer ? number.int() : number;
+    if (typeof schema.minimum === "number") {
+      type = type.min(schema.minimum);
+    }
+    if (typeof schema.maximum === "number") {
+      type = type.max(schema.maximum);
+    }
+    if (typeof schema.exclusiveMinimum === "number") {
+      type = type.gt(schema.exclusiveMinimum);
+    }
+    if (typeof schema.exclusiveMaximum === "number") {
+      type = type.lt(schema.exclusiveMaximum);
+    }
+    if (typeof schema.multipleOf === "number") {
+      type = type.multipleOf(schema.multipleOf);
+    }
+    return type;
+  }
+
+  function buildObject(schema: any): TypeChecker<any> {
+    const properties: { [key: string]: unknown } =
+      schema.properties instanceof Object ? schema.properties : {};
+    const required: string[] =
+      schema.required instanceof Array ? schema.required : [];
+
+    const shape: ObjectShape = {};
+    for (const [key, property] of Object.entries(properties)) {
+      const type = build(property);
+      shape[key] = required.includes(key) ? type : optional(type);
+    }
+    for (const key of required) {
+      if (!Object.hasOwn(shape, key)) {
+        shape[key] = definedValue;
+      }
+    }
+
+    let type: TypeChecker<any> = object(shape, {
+      unknownKeys:
+        schema.additionalProperties === false ? "reject" : "passthrough",
+    });
+    if (
+      schema.additionalProperties !== undefined &&
+      schema.additionalProperties !== false
+    ) {
+      type = and(
+        type,
+        additionalProperties(
+          Object.keys(properties),
+          build(schema.additionalProperties)
+        )
+      );
+    }
+
+    return constraints(type, [
+      [
+        typeof schema.minProperties === "number",
+        (o) => Object.keys(o).length >= schema.minProperties,
+        `expected object with at least ${schema.minProperties} properties`,
+      ],
+      [
+        typeof schema.maxProperties === "number",
+        (o) => Object.keys(o).length <= schema.maxProperties,
+        `expected object with at most ${schema.maxProperties} properties`,
+      ],
+    ]);
+  }
+
+  function buildArray(schema: any): TypeChecker<any> {
+    const prefixItems: TypeChecker<any>[] =
+      schema.prefixItems instanceof Array ? schema.prefixItems.map(build) : [];
+    const items = schema.items === undefined ? unknown : build(schema.items);
+    return constraints(
+      prefixItems.length > 0 ? jsonArray(prefixItems, items) : array(items),
+      [
+        [
+          typeof schema.minItems === "number",
+          (a) => a.length >= schema.minItems,
+          `expected array of length at least ${schema.minItems}`,
+        ],
+        [
+          typeof schema.maxItems === "number",
+          (a) => a.length <= schema.maxItems,
+          `expected array of length at most ${schema.maxItems}`,
+        ],
+        [
+          schema.uniqueItems === true,
+          (a) => a.every((v, i) => a.findIndex((w) => jsonEqual(v, w)) === i),
+          "expected array of unique items",
+        ],
+      ]
+    );
+  }
+
+  const typeBuilders: { [type: string]: (schema: any) => TypeChecker<any> } = {
+    string: buildString,
+    number: (schema) => buildNumber(schema, false),
+    integer: (schema) => buildNumber(schema, true),
+    boolean: () => boolean,
+    null: () => _null,
+    object: buildObject,
+    array: buildArray,
+  };
+  // keywords that only apply to one JSON type, used when "type" is absent
+  const typeKeywords: [string, string[]][] = [
+    ["string", ["minLength", "maxLength", "pattern"]],
+    [
+      "number",
+      [
+        "minimum",
+        "maximum",
+        "exclusiveMinimum",
+        "exclusiveMaximum",
+        "multipleOf",
+      ],
+    ],
+    [
+      "object",
+      [
+        "properties",
+        "required",
+        "additionalProperties",
+        "minProperties",
+        "maxProperties",
+      ],
+    ],
+    ["array", ["items", "prefixItems", "minItems", "maxItems", "uniqueItems"]],
+  ];
+
+  function values(list: unknown[]): TypeChecker<any> {
+    if (list.every(isLiteralBase)) {
+      return list.length === 1 ? literal(list[0]!) : _enum(...list);
+    }
+    return nominal(
+      (value): value is unknown => list.some((v) => jsonEqual(v, value)),
+      list.map((v) => JSON.stringify(v)).join(" | ")
+    );
+  }
+
+  function build(schema: unknown): TypeChecker<any> {
+    if (schema === true) {
+      return unknown;
+    } else if (schema === false) {
+      return nominal(
+        (value): value is unknown => false,
+        "never"
+      ).withJSONSchema({ not: {} });
+    } else if (!(schema instanceof Object)) {
+      throw new Error(`invalid JSON Schema ${JSON.stringify(schema)}`);
+    }
+
+    const s = schema as any;
+    const parts: TypeChecker<any>[] = [];
+
+    if (typeof s.type === "string" || s.type instanceof Array) {
+      const types: string[] = typeof s.type === "string" ? [s.type] : s.type;
+      const checkers = types.map((type) => {
+        const builder = typeBuilders[type];
+        if (builder === undefined) {
+          throw new Error(`unsupported type ${JSON.stringify(type)}`);
+        }
+        return builder(s);
+      });
+      parts.push(checkers.length === 1 ? checkers[0]! : or(...checkers));
+    } else {
+      for (const [jsonType, keywords] of typeKeywords) {
+        if (keywords.some((keyword) => Object.hasOwn(s, keyword))) {
+          parts.push(whenJSONType(jsonType, typeBuilders[jsonType]!(s)));
+        }
+      }
+    }
+
+    if (s.const !== undefined) {
+      parts.push(values([s.const]));
+    }
+    if (s.enum instanceof Array) {
+      parts.push(values(s.enum));
+    }
+    if (typeof s.$ref === "string") {
+      parts.push(ref(s.$ref));
+    }
+    if (s.allOf instanceof Array) {
+      parts.push(...s.allOf.map(build));
+    }
+    if (s.anyOf instanceof Array) {
+      parts.push(or(...s.anyOf.map(build)));
+    }
+    if (s.oneOf instanceof Array) {
+      const branches: TypeChecker<any>[] = s.oneOf.map(build);
+      const union = or(...branches);
+      parts.push(
+        union.refine(
+          (value) =>
+            branches.filter((type) => checkSilently(type, value)).length === 1,
+          `expected exactly one of ${union.toTypeString()}`
+        )
+      );
+    }
+
+    if (parts.length === 0) {
+      return unknown;
+    }
+    return parts.length === 1 ? parts[0]! : and(...parts);
+  }
+
+  return build(schemaDoc);
+}
+
+// the checkers that a checker is built from, in order; those of lazy checkers
+// are resolved
+function childCheckers(def: TypeDef): TypeChecker<any, any>[] {
+  switch (def.kind) {
+    case "object":
+      return Object.values(def.shape).map((type) =>
+        isOptionalWrapper(type) ? type.optional : type
+      );
+    case "array":
+    case "set":
+      return [def.item];
+    case "tuple":
+      return def.items;
+    case "record":
+      return def.key ? [def.key, def.value] : [def.value];
+    case "map":
+      return [def.key, def.value];
+    case "union":
+    case "discriminatedUnion":
+      return def.options;
+    case "intersection":
+      return def.types;
+    case "lazy":
+      return [def.resolve()];
+    case "refinement":
+    case "asyncRefinement":
+    case "transform":
+      return [def.base];
+    case "jsonType":
+    case "additionalProperties":
+      return [def.type];
+    case "jsonArray":
+      return [...def.prefixItems, def.items];
+    default:
+      return [];
+  }
+}
+
+// builds the checker described by `def` from other checkers in place of those
+// returned by childCheckers
+function rebuildChecker(
+  def: TypeDef,
+  parts: TypeChecker<any, any>[]
+): TypeChecker<any, any> {
+  const [first, second] = parts as [
+    TypeChecker<any, any>,
+    TypeChecker<any, any>
+  ];
+  switch (def.kind) {
+    case "object": {
+      let i = 0;
+      const shape = mapShape(def.shape, (type) => {
+        const part = parts[i++]!;
+        // optional wrappers keep their defaults
+        return isOptionalWrapper(type) ? { ...type, optional: part } : part;
+      });
+      return object(shape, { unknownKeys: def.unknownKeys });
+    }
+    case "array":
+      return array(first);
+    case "set":
+      return set(first);
+    case "tuple":
+      return tuple(...parts);
+    case "record":
+      return def.key ? record(first, second) : record(first);
+    case "map":
+      return map(first, second);
+    case "union":
+      return or(...parts);
+    case "discriminatedUnion":
+      // discriminatedUnion() checks that the parts are still tagged objects
+      return discriminatedUnion(def.key, ...(parts as any[]));
+    case "intersection":
+      return and(...parts);
+    case "refinement":
+      return first.refine(
+        def.check,
+        def.explicitMessage ? def.message : undefined
+      );
+    case "asyncRefinement":
+      return first.refineAsync(
+        def.check,
+        def.explicitMessage ? def.message : undefined
+      );
+    case "transform":
+      return first.transform(def.transform);
+    case "jsonType":
+      return whenJSONType(def.jsonType, first);
+    case "jsonArray":
+      return jsonArray(parts.slice(0, -1), parts[parts.length - 1]!);
+    case "additionalProperties":
+      return additionalProperties(def.known, first);
+    default:
+      throw new Error(`cannot rebuild a checker of kind ${def.kind}`);
+  }
+}
+
+// calls `visitor` with `checker` and then, unless it returns false, with each
+// checker it is built from, depth first; lazy checkers are visited once, so
+// that recursive schemas are only walked through once
+export function visit(
+  checker: TypeChecker<any, any>,
+  visitor: (checker: TypeChecker<any, any>) => void | boolean
+): void {
+  const visitedLazies = new Set<TypeChecker<any, any>>();
+  const walk = (checker: TypeChecker<any, any>) => {
+    if (checker.def.kind === "lazy") {
+      if (visitedLazies.has(checker)) {
+        return;
+      }
+      visitedLazies.add(checker);
+    }
+    if (visitor(checker) === false) {
+      return;
+    }
+    for (const child of childCheckers(checker.def)) {
+      walk(child);
+    }
+  };
+  walk(checker);
+}
+
+// rebuilds a schema bottom up, replacing each checker with the result of
+// passing `fn` the checker rebuilt from the replacements of its parts.
+// Refinements and transforms are reapplied with their messages, optional
+// properties keep their defaults, and checkers whose parts are all unchanged
+// are kept as they are; lazy checkers are rebuilt as lazy checkers, so
+// recursive schemas stay recursive
+export function mapSchema(
+  checker: TypeChecker<any, any>,
+  fn: (checker: TypeChecker<any, any>) => TypeChecker<any, any>
+): TypeChecker<unknown> {
+  // checkers used in several places are mapped once
+  const mapped = new Map<TypeChecker<any, any>, TypeChecker<any, any>>();
+  const rebuild = (checker: TypeChecker<any, any>): TypeChecker<any, any> => {
+    let result = mapped.get(checker);
+    if (result !== undefined) {
+      return result;
+    }
+
+    const def = checker.def;
+    if (def.kind === "lazy") {
+      // registered before `fn` runs, for recursive uses reached through it
+      const rebuilt = lazy(() => rebuild(def.resolve()), def.name);
+      mapped.set(checker, rebuilt);
+      result = fn(rebuilt);
+    } else {
+      const children = childCheckers(def);
+      const parts = children.map(rebuild);
+      result = fn(
+        parts.some((part, i) => part !== children[i])
+          ? rebuildChecker(def, parts)
+          : checker
+      );
+    }
+    mapped.set(checker, result);
+    return result;
+  };
+  return rebuild(checker);
+}
+
+// a seeded source of random numbers, passed to custom generators
+export type Random = {
+  // a number from 0 up to, but not including, 1
+  next(): number;
+  // an integer from `min` to `max`, inclusive
+  int(min: number, max: number): number;
+  boolean(): boolean;
+  pick<T>(items: readonly T[]): T;
+};
+
+// mulberry32, which is small and good enough for generating test data
+function createRandom(seed: number): Random {
+  // the seed is scrambled first, as consecutive seeds would otherwise start
+  // with similar numbers
+  let state = (seed ^ 0x9e3779b9) >>> 0;
+  state = Math.imul(state ^ (state >>> 16), 0x85ebca6b);
+  state = Math.imul(state ^ (state >>> 13), 0xc2b2ae35);
+  state = (state ^ (state >>> 16)) >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let x = state;
+    x = Math.imul(x ^ (x >>> 15), x | 1);
+    x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+    return ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    boolean: () => next() < 0.5,
+    pick: (items) => items[Math.floor(next() * items.length)]!,
+  };
+}
+
+export type GenerateOptions = {
+  // the same seed generates the same values; by default, it is random
+  seed?: number;
+  // how deep values may nest in arrays, sets, maps, records and lazy
+  // checkers, 4 by default; past it, collections are empty and recursive
+  // schemas take other options where they have them
+  maxDepth?: number;
+  // generates the values of checkers that cannot be generated blindly, such
+  // as nominal and class checkers, or refinements that random values rarely
+  // pass; a checker is looked up by identity, before its parts are
+  generators?: Map<TypeChecker<any, any>, (random: Random) => unknown>;
+};
+
+// thrown where a recursive schema nests deeper than maxDepth, for unions and
+// optional properties to try generating something else
+class GenerateDepthError extends Error {}
+
+// the number of attempts at generating values that pass refinements, and at
+// generating invalid values
+const generateAttempts = 100;
+
+// the values tried in place of valid ones when generating invalid values
+const invalidValues: unknown[] = [
+  null,
+  undefined,
+  0,
+  -1,
+  1.5,
+  NaN,
+  "",
+  "x",
+  true,
+  false,
+  [],
+  {},
+];
+
+// whether `checker` accepts `value`, assuming that async refinements pass
+function acceptsValue(checker: TypeChecker<any, any>, value: unknown) {
+  const save = asyncRefinements.pending;
+  asyncRefinements.pending = "assume";
+  try {
+    return checkSilently(checker, value);
+  } finally {
+    asyncRefinements.pending = save;
+  }
+}
+
+function createGenerator(options: GenerateOptions) {
+  const {
+    seed = Math.floor(Math.random() * 2 ** 32),
+    maxDepth = 4,
+    generators = new Map(),
+  } = options;
+  const random = createRandom(seed);
+  let depth = 0;
+
+  const randomString = () => {
+    const chars =
+      "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 _-";
+    let result = "";
+    for (let i = random.int(0, 8); i > 0; i--) {
+      result += random.pick([...chars]);
+    }
+    return result;
+  };
+  const randomNumber = () =>
+    random.next() < 0.7
+      ? random.int(-100, 100)
+      : (random.next() - 0.5) * 10 ** random.int(0, 6);
+  // a number that is likely to pass `checks`, between their bounds and a
+  // multiple of their step; like other generated values, it is checked after
+  const constrainedNumber = (checks: NumberCheck[]) => {
+    if (checks.length === 0) {
+      return randomNumber();
+    }
+    let low = -Infinity;
+    let high = Infinity;
+    let step: number | undefined;
+    for (const check of checks) {
+      if (check.kind === "min") {
+        low = Math.max(low, check.value);
+      } else if (check.kind === "max") {
+        high = Math.min(high, check.value);
+      } else if (check.kind === "int") {
+        step ??= 1;
+      } else if (check.kind === "multipleOf") {
+        step = check.value;
+      }
+    }
+    // wide or missing bounds are narrowed to values near zero
+    low = Math.max(low, Math.min(high, 0) - 1000);
+    high = Math.min(high, Math.max(low, 0) + 1000);
+    if (step === undefined) {
+      return low + random.next() * (high - low);
+    }
+    return random.int(Math.ceil(low / step), Math.floor(high / step)) * step;
+  };
+  const randomJSON = (): unknown => {
+    switch (random.int(0, depth < maxDepth ? 6 : 4)) {
+      case 0:
+        return null;
+      case 1:
+        return random.boolean();
+      case 2:
+        return randomNumber();
+      case 3:
+        return randomString();
+      case 4:
+        return undefined;
+      case 5:
+        return Array.from({ length: random.int(0, 3) }, nested(randomJSON));
+      default: {
+        const obj: { [key: string]: unknown } = {};
+        for (let i = random.int(0, 3); i > 0; i--) {
+          obj[randomString()] = nested(randomJSON)();
+        }
+        return obj;
+      }
+    }
+  };
+  // the number of elements of arrays, sets, maps and records, which are
+  // empty past maxDepth, so that recursive schemas stop
+  const size = () => (depth < maxDepth ? random.int(0, 4) : 0);
+  const nested =
+    <R>(fn: () => R) =>
+    () => {
+      depth++;
+      try {
+        return fn();
+      } finally {
+        depth--;
+      }
+    };
+  // tries the given generators in a random order, until one of them does not
+  // nest too deep
+  const oneOf = (options: (() => unknown)[]): unknown => {
+    const remaining = [...options];
+    while (remaining.length > 1) {
+      const [option] = remaining.splice(random.int(0, remaining.length - 1), 1);
+      try {
+        return option!();
+      } catch (e) {
+        if (!(e instanceof GenerateDepthError)) {
+          throw e;
+        }
+      }
+    }
+    return remaining[0]!();
+  };
+
+  const valid = (checker: TypeChecker<any, any>): unknown => {
+    const custom = generators.get(checker);
+    if (custom) {
+      return custom(random);
+    }
+
+    const def = checker.def;
+    switch (def.kind) {
+      case "primitive":
+        switch (def.name) {
+          case "number":
+            return constrainedNumber(def.checks);
+          case "string":
+            return randomString();
+          case "boolean":
+            return random.boolean();
+          case "bigint":
+            return BigInt(random.int(-1000, 1000));
+        }
+      case "coerce":
+        switch (def.to) {
+          case "number":
+            return randomNumber();
+          case "boolean":
+            return random.boolean();
+          case "bigint":
+            return BigInt(random.int(-1000, 1000));
+          case "Date":
+            return new Date(random.int(0, 4102444800) * 1000);
+        }
+      case "literal":
+        return def.value;
+      case "null":
+        return null;
+      case "undefined":
+        return undefined;
+      case "any":
+      case "unknown":
+        return randomJSON();
+      case "object": {
+        const obj: { [key: string]: unknown } = {};
+        for (const [key, type] of Object.entries(def.shape)) {
+          if (!isOptionalWrapper(type)) {
+            obj[key] = valid(type);
+          } else if (random.boolean()) {
+            try {
+              obj[key] = valid(type.optional);
+            } catch (e) {
+              if (!(e instanceof GenerateDepthError)) {
+                throw e;
+              }
+            }
+          }
+        }
+        return obj;
+      }
+      case "array":
+        return Array.from(
+          { length: size() },
+          nested(() => valid(def.item))
+        );
+      case "set":
+        return new Set(
+          Array.from(
+            { length: size() },
+            nested(() => valid(def.item))
+          )
+        );
+      case "tuple":
+        return def.items.map((type) => valid(type));
+      case "record": {
+        const obj: { [key: string]: unknown } = {};
+        for (let i = size(); i > 0; i--) {
+          const key = def.key ? valid(def.key) : randomString();
+          obj[key as string] = nested(() => valid(def.value))();
+        }
+        return obj;
+      }
+      case "map": {
+        const result = new Map<unknown, unknown>();
+        for (let i = size(); i > 0; i--) {
+          result.set(
+            nested(() => valid(def.key))(),
+            nested(() => valid(def.value))()
+          );
+        }
+        return result;
+      }
+      case "union":
+      case "discriminatedUnion":
+        return oneOf(def.options.map((option) => () => valid(option)));
+      case "intersection": {
+        // the parts are generated separately and merged, which works for
+        // intersections of objects
+        const parts = def.types.map((type) => valid(type));
+        if (parts.every((part) => part instanceof Object)) {
+          return Object.assign({}, ...parts);
+        }
+        return parts[0];
+      }
+      case "lazy":
+        if (depth > maxDepth) {
+          throw new GenerateDepthError();
+        }
+        return nested(() => valid(def.resolve()))();
+      case "refinement":
+        for (let i = 0; i < generateAttempts; i++) {
+          const value = valid(def.base);
+          if (acceptsValue(checker, value)) {
+            return value;
+          }
+        }
+        throw new Error(
+          `cannot generate a value passing the refinement "${
+            typeof def.message === "string" ? def.message : "invalid value"
+          }" of ${checker.toTypeString()}; provide a generator for it`
+        );
+      // async refinements cannot be checked here, so they are assumed to pass
+      case "asyncRefinement":
+      case "transform":
+        return valid(def.base);
+      case "jsonType":
+        return valid(def.type);
+      case "jsonArray":
+        return Array.from({ length: def.prefixItems.length + size() }, (_, i) =>
+          nested(() => valid(def.prefixItems[i] ?? def.items))()
+        );
+      case "additionalProperties":
+        return {};
+      case "never":
+      case "class":
+      case "nominal":
+        throw new Error(
+          `cannot generate a value of ${checker.toTypeString()}; provide a generator for it`
+        );
+    }
+  };
+
+  // replaces a random part of a valid value, or the whole of it, with an
+  // invalid value
+  const invalid = (checker: TypeChecker<any, any>, value: unknown): unknown => {
+    const def = checker.def;
+    if (random.next() < 0.3) {
+      return random.pick(invalidValues);
+    }
+    switch (def.kind) {
+      case "lazy":
+        return invalid(def.resolve(), value);
+      case "refinement":
+      case "asyncRefinement":
+      case "transform":
+        return invalid(def.base, value);
+      case "object": {
+        const keys = Object.keys(def.shape).filter((key) =>
+          Object.hasOwn(value as object, key)
+        );
+        if (keys.length === 0) {
+          break;
+        }
+        const key = random.pick(keys);
+        const type = def.shape[key]!;
+        const obj: { [key: string]: unknown } = { ...(value as object) };
+        if (!isOptionalWrapper(type) && random.boolean()) {
+          delete obj[key];
+        } else {
+          obj[key] = invalid(
+            isOptionalWrapper(type) ? type.optional : type,
+            obj[key]
+          );
+        }
+        return obj;
+      }
+      case "array":
+      case "tuple": {
+        const items = [...(value as unknown[])];
+        if (items.length === 0 || random.next() < 0.2) {
+          items.push(random.pick(invalidValues));
+        } else {
+          const i = random.int(0, items.length - 1);
+          items[i] = invalid(
+            def.kind === "array" ? def.item : def.items[i]!,
+            items[i]
+          );
+        }
+        return items;
+      }
+    }
+    return random.pick(invalidValues);
+  };
+
+  return { valid, invalid };
+}
+
+// generates a random value that passes `checker`, for tests; async
+// refinements are assumed to pass
+export function generate<T, I>(
+  checker: TypeChecker<T, I>,
+  options: GenerateOptions = {}
+): I {
+  const generator = createGenerator(options);
+  try {
+    for (let i = 0; i < generateAttempts; i++) {
+      const value = generator.valid(checker);
+      // the parts of intersections that are not objects may still disagree
+      if (acceptsValue(checker, value)) {
+        return value as I;
+      }
+    }
+  } catch (e) {
+    if (e instanceof GenerateDepthError) {
+      throw new Error(
+        `cannot generate a value of ${checker.toTypeString()} within maxDepth`
+      );
+    }
+    throw e;
+  }
+  throw new Error(`cannot generate a value of ${checker.toTypeString()}`);
+}
+
+// generates a random value that fails `checker`, for negative tests: usually a
+// valid value with some part of it made invalid
+export function generateInvalid<T, I>(
+  checker: TypeChecker<T, I>,
+  options: GenerateOptions = {}
+): unknown {
+  const { seed = Math.floor(Math.random() * 2 ** 32) } = options;
+  const generator = createGenerator({ ...options, seed });
+  for (let i = 0; i < generateAttempts; i++) {
+    const value = generator.invalid(
+      checker,
+      generate(checker, { ...options, seed: seed + i })
+    );
+    if (!acceptsValue(checker, value)) {
+      return value;
+    }
+  }
+  throw new Error(`cannot generate a value failing ${checker.toTypeString()}`);
+}
+
+export type PropertyOptions = GenerateOptions & {
+  // the number of generated values to run the predicate on, 100 by default
+  runs?: number;
+  // the most simplifications tried on a counterexample, 1000 by default
+  maxShrinks?: number;
+};
+
+// thrown by property() with the simplest counterexample it found
+export class PropertyFailure extends Error {
+  constructor(
+    message: string,
+    // the seed to pass to property() to run the same values again
+    public seed: number,
+    public counterexample: unknown,
+    // the generated value before it was shrunk
+    public original: unknown,
+    public shrinks: number,
+    cause: unknown
+  ) {
+    super(message, { cause });
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  } else if (typeof value === "bigint") {
+    return `${value}n`;
+  } else if (value instanceof Array) {
+    return `[${value.map(describeValue).join(", ")}]`;
+  } else if (value instanceof Map) {
+    const entries = [...value].map(
+      ([k, v]) => `${describeValue(k)} => ${describeValue(v)}`
+    );
+    return `Map { ${entries.join(", ")} }`;
+  } else if (value instanceof Set) {
+    return `Set { ${[...value].map(describeValue).join(", ")} }`;
+  } else if (value instanceof Date) {
+    return `Date(${JSON.stringify(value)})`;
+  } else if (value instanceof Object && typeof value !== "function") {
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${propertyKey(k)}: ${describeValue(v)}`
+    );
+    return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+  }
+  return String(value);
+}
+
+// values simpler than `value` that may still pass `checker`, simplest first;
+// each candidate is smaller than `value` in some respect, so shrinking ends
+function shrinkCandidates(
+  checker: TypeChecker<any, any>,
+  value: unknown
+): unknown[] {
+  const def = checker.def;
+  switch (def.kind) {
+    case "primitive":
+    case "coerce":
+      // numbers closer to zero are simpler, and positive ones simpler than
+      // negative ones
+      if (typeof value === "number" && Number.isFinite(value)) {
+        // the bounds of constrained numbers are likely to pass
+        const bounds =
+          def.kind === "primitive" && def.name === "number"
+            ? def.checks.flatMap((check) =>
+                check.kind === "min" || check.kind === "max"
+                  ? [check.value]
+                  : []
+              )
+            : [];
+        const candidates = [
+          0,
+          ...bounds,
+          Math.trunc(value),
+          -value,
+          Math.trunc(value / 2),
+          value - Math.sign(value),
+        ];
+        return [...new Set(candidates)].filter(
+          (n) =>
+            Math.abs(n) < Math.abs(value) ||
+            (Math.abs(n) === Math.abs(value) && n > value)
+        );
+      } else if (typeof value === "bigint" && value !== 0n) {
+        const abs = (n: bigint) => (n < 0n ? -n : n);
+        const candidates = [0n, -value, value / 2n, value - value / abs(value)];
+        return [...new Set(candidates)].filter(
+          (n) => abs(n) < abs(value) || (abs(n) === abs(value) && n > value)
+        );
+      } else if (typeof value === "string") {
+        return [
+          "",
+          value.slice(0, value.length >> 1),
+          value.slice(1),
+          value.slice(0, -1),
+        ].filter((s) => s.length < value.length);
+      } else if (value === true) {
+        return [false];
+      }
+      return [];
+    case "object": {
+      const obj = value as { [key: string]: unknown };
+      const candidates: unknown[] = [];
+      for (const [key, type] of Object.entries(def.shape)) {
+        if (isOptionalWrapper(type) && Object.hasOwn(obj, key)) {
+          const { [key]: _, ...rest } = obj;
+          candidates.push(rest);
+        }
+      }
+      for (const [key, type] of Object.entries(def.shape)) {
+        if (Object.hasOwn(obj, key)) {
+          for (const v of shrinkCandidates(
+            isOptionalWrapper(type) ? type.optional : type,
+            obj[key]
+          )) {
+            candidates.push({ ...obj, [key]: v });
+          }
+        }
+      }
+      return candidates;
+    }
+    case "record": {
+      const obj = value as { [key: string]: unknown };
+      const keys = Object.keys(obj);
+      return [
+        ...keys.map((key) => {
+          const { [key]: _, ...rest } = obj;
+          return rest;
+        }),
+        ...keys.flatMap((key) =>
+          shrinkCandidates(def.value, obj[key]).map((v) => ({
+            ...obj,
+            [key]: v,
+          }))
+        ),
+      ];
+    }
+    case "array":
+    case "set": {
+      const items = [...(value as Iterable<unknown>)];
+      const candidates: unknown[][] = [];
+      if (items.length > 0) {
+        candidates.push([], items.slice(0, items.length >> 1));
+        for (let i = 0; i < items.length; i++) {
+          candidates.push(items.filter((_, j) => j !== i));
+        }
+      }
+      for (let i = 0; i < items.length; i++) {
+        for (const v of shrinkCandidates(def.item, items[i])) {
+          candidates.push(items.map((item, j) => (j === i ? v : item)));
+        }
+      }
+      return def.kind === "set"
+        ? candidates.map((items) => new Set(items))
+        : candidates;
+    }
+    case "tuple": {
+      const items = value as unknown[];
+      return items.flatMap((item, i) =>
+        shrinkCandidates(def.items[i]!, item).map((v) =>
+          items.map((item, j) => (j === i ? v : item))
+        )
+      );
+    }
+    case "map": {
+      const entries = [...(value as Map<unknown, unknown>)];
+      return [
+        ...entries.map((_, i) => new Map(entries.filter((_, j) => j !== i))),
+        ...entries.flatMap(([k, v], i) =>
+          shrinkCandidates(def.value, v).map(
+            (shrunk) =>
+              new Map(
+                entries.map((entry, j) => (j === i ? [k, shrunk] : entry))
+              )
+          )
+        ),
+      ];
+    }
+    case "union":
+    case "discriminatedUnion": {
+      // options without parts, such as null and literals, are simpler than
+      // the others, and earlier options simpler than later ones
+      const options: TypeChecker<any, any>[] = def.options;
+      const rank = (i: number) =>
+        (childCheckers(options[i]!.def).length === 0 ? 0 : options.length) + i;
+      const current = options.findIndex((option) =>
+        acceptsValue(option, value)
+      );
+      if (current === -1) {
+        return [];
+      }
+      const candidates: unknown[] = [];
+      const simpler = options
+        .map((_, i) => i)
+        .filter((i) => rank(i) < rank(current))
+        .sort((a, b) => rank(a) - rank(b));
+      for (const i of simpler) {
+        try {
+          candidates.push(generate(options[i]!, { seed: 0, maxDepth: 0 }));
+        } catch (e) {
+          // options that cannot be generated are not shrunk to
+        }
+      }
+      return [...candidates, ...shrinkCandidates(options[current]!, value)];
+    }
+    case "intersection":
+      return def.types.flatMap((type) => shrinkCandidates(type, value));
+    case "lazy":
+      return shrinkCandidates(def.resolve(), value);
+    case "refinement":
+    case "asyncRefinement":
+    case "transform":
+      return shrinkCandidates(def.base, value);
+    default:
+      return [];
+  }
+}
+
+// checks that `predicate` holds for values generated from `checker`, throwing
+// a PropertyFailure with the simplest counterexample found otherwise; the
+// predicate fails by returning false or throwing
+export function property<T, I>(
+  checker: TypeChecker<T, I>,
+  predicate: (value: I) => boolean | void,
+  options: PropertyOptions = {}
+): void {
+  const {
+    runs = 100,
+    maxShrinks = 1000,
+    seed = Math.floor(Math.random() * 2 ** 32),
+  } = options;
+  // the error thrown by the predicate, or true if it passed
+  const attempt = (value: unknown): unknown => {
+    try {
+      return predicate(value as I) === false ? undefined : true;
+    } catch (e) {
+      return e;
+    }
+  };
+
+  for (let run = 0; run < runs; run++) {
+    const original = generate(checker, { ...options, seed: seed + run });
+    let outcome = attempt(original);
+    if (outcome === true) {
+      continue;
+    }
+
+    // greedily take the first simpler value that still fails, until none does
+    let counterexample: unknown = original;
+    let shrinks = 0;
+    let tries = 0;
+    search: while (tries < maxShrinks) {
+      for (const candidate of shrinkCandidates(checker, counterexample)) {
+        if (++tries > maxShrinks) {
+          break search;
+        }
+        if (!acceptsValue(checker, candidate)) {
+          continue;
+        }
+        const candidateOutcome = attempt(candidate);
+        if (candidateOutcome !== true) {
+          counterexample = candidate;
+          outcome = candidateOutcome;
+          shrinks++;
+          continue search;
+        }
+      }
+      break;
+    }
+
+    const reason =
+      outcome === undefined
+        ? "returned false"
+        : `threw ${
+            outcome instanceof Error ? outcome.message : String(outcome)
+          }`;
+    throw new PropertyFailure(
+      `property failed after ${run + 1} run${
+        run === 0 ? "" : "s"
+      } with seed ${seed}` +
+        ` (shrunk ${shrinks} time${shrinks === 1 ? "" : "s"}): ` +
+        `${describeValue(counterexample)} ${reason}`,
+      seed,
+      counterexample,
+      original,
+      shrinks,
+      outcome
+    );
+  }
+}
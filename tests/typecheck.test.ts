@@ -1,4 +1,5 @@
 import { t } from "../src";
+import ts from "typescript";
 
 describe("String literals", () => {
   const type = t.literal("hi");
@@ -94,6 +95,453 @@ describe("Objects", () => {
   });
 });
 
+describe("Unknown object keys", () => {
+  const shape = { host: t.string, port: t.optional(t.number) };
+
+  it("should strip unknown keys by default", () => {
+    const type = t.object(shape);
+    expect(type.unknownKeys).toBe("strip");
+    expect(type.check({ host: "a", databse: "x" })).toBe(true);
+    expect(t.parse(type, { host: "a", databse: "x" }).unwrap()).toStrictEqual({
+      host: "a",
+    });
+  });
+
+  it("should reject unknown keys", () => {
+    const type = t.strictObject(shape);
+    expect(type.unknownKeys).toBe("reject");
+    expect(type.check({ host: "a" })).toBe(true);
+    expect(type.check({ host: "a", port: 1 })).toBe(true);
+    expect(type.check({ host: "a", databse: "x" })).toBe(false);
+    expect(
+      t.object(shape, { unknownKeys: "reject" }).check({ host: "a", x: 1 })
+    ).toBe(false);
+  });
+
+  it("should report one error per unknown key", () => {
+    const type = t.object({
+      server: t.strictObject(shape),
+      name: t.string,
+    });
+    const result = t.parse(type, {
+      server: { host: 5, databse: "x", prot: 80 },
+      name: "n",
+      extra: true,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(3);
+      expect(result.errors[0].field).toEqual(["server", "host"]);
+      expect(result.errors[0].message).toBe("expected string");
+      expect(result.errors[1].field).toEqual(["server", "databse"]);
+      expect(result.errors[1].message).toBe("unexpected key");
+      expect(result.errors[2].field).toEqual(["server", "prot"]);
+      expect(result.errors[2].message).toBe("unexpected key");
+    }
+  });
+
+  it("should keep unknown keys in passthrough mode", () => {
+    const type = t.object(
+      { id: t.number, nested: t.object({ a: t.number }) },
+      { unknownKeys: "passthrough" }
+    );
+    expect(type.unknownKeys).toBe("passthrough");
+    const input = { extra: "kept", id: 1, nested: { a: 1, b: 2 } };
+    expect(type.sanitize(input).value).toStrictEqual({
+      id: 1,
+      nested: { a: 1 },
+      extra: "kept",
+    });
+  });
+
+  it("should not change the type string", () => {
+    expect(t.strictObject(shape).toTypeString()).toBe(
+      "{ host: string; port?: number; }"
+    );
+  });
+});
+
+describe("Object schema helpers", () => {
+  const user = t.object({
+    id: t.number,
+    name: t.string,
+    email: t.optional(t.string),
+    address: t.object({
+      city: t.string,
+      zip: t.optional(t.string),
+    }),
+  });
+
+  it("should expose the shape", () => {
+    expect(user.shape.id).toBe(t.number);
+    expect(t.isObjectTypeChecker(user)).toBe(true);
+    expect(t.isObjectTypeChecker(t.string)).toBe(false);
+    expect(t.isObjectTypeChecker(user.refine(() => true))).toBe(false);
+  });
+
+  it("should extend objects", () => {
+    const admin = user.extend({ role: t.literal("admin"), id: t.string });
+    const value: t.TypeOf<typeof admin> = {
+      id: "a1",
+      name: "n",
+      address: { city: "c" },
+      role: "admin",
+    };
+    expect(admin.check(value)).toBe(true);
+    expect(admin.check({ ...value, id: 1 })).toBe(false);
+    expect(admin.toTypeString()).toBe(
+      '{ id: string; name: string; email?: string; address: { city: string; zip?: string; }; role: "admin"; }'
+    );
+  });
+
+  it("should merge objects", () => {
+    const timestamps = t.object({ createdAt: t.number });
+    const merged = user.merge(timestamps);
+    const value: t.TypeOf<typeof merged> = {
+      id: 1,
+      name: "n",
+      address: { city: "c" },
+      createdAt: 0,
+    };
+    expect(merged.check(value)).toBe(true);
+    expect(merged.check({ ...value, createdAt: undefined })).toBe(false);
+  });
+
+  it("should pick and omit keys", () => {
+    const picked = user.pick("id", "email");
+    const pickedValue: t.TypeOf<typeof picked> = { id: 1 };
+    expect(picked.check(pickedValue)).toBe(true);
+    expect(picked.toTypeString()).toBe("{ id: number; email?: string; }");
+    expect(t.parse(picked, { id: 1, name: "n" }).unwrap()).toStrictEqual({
+      id: 1,
+    });
+
+    const omitted = user.omit("address", "email");
+    const omittedValue: t.TypeOf<typeof omitted> = { id: 1, name: "n" };
+    expect(omitted.check(omittedValue)).toBe(true);
+    expect(omitted.toTypeString()).toBe("{ id: number; name: string; }");
+  });
+
+  it("should make fields optional or required", () => {
+    const patch = user.partial();
+    const patchValue: t.TypeOf<typeof patch> = {};
+    expect(patch.check(patchValue)).toBe(true);
+    expect(patch.check({ address: {} })).toBe(false);
+    expect(patch.toTypeString()).toBe(
+      "{ id?: number; name?: string; email?: string; address?: { city: string; zip?: string; }; }"
+    );
+
+    const full = patch.required();
+    const fullValue: t.TypeOf<typeof full> = {
+      id: 1,
+      name: "n",
+      email: "e",
+      address: { city: "c" },
+    };
+    expect(full.check(fullValue)).toBe(true);
+    expect(full.check({ id: 1, name: "n", address: { city: "c" } })).toBe(
+      false
+    );
+  });
+
+  it("should make nested objects optional with deepPartial", () => {
+    const patch = t
+      .object({
+        user,
+        meta: t.optional(t.object({ tags: t.array(t.string) })),
+        port: t.optional(t.number, { default: 80 }),
+      })
+      .deepPartial();
+    const value: t.TypeOf<typeof patch> = {
+      user: { address: {} },
+      meta: {},
+      port: 1,
+    };
+    expect(patch.check(value)).toBe(true);
+    expect(patch.check({})).toBe(true);
+    expect(patch.check({ user: { address: { city: 5 } } })).toBe(false);
+    expect(t.parse(patch, {}).unwrap()).toStrictEqual({ port: 80 });
+    expect(patch.toTypeString()).toBe(
+      "{ user?: { id?: number; name?: string; email?: string; address?: { city?: string; zip?: string; }; }; meta?: { tags?: string[]; }; port?: number /* default: 80 */; }"
+    );
+  });
+
+  it("should keep the unknown keys mode", () => {
+    const strict = t.strictObject({ a: t.number, b: t.string });
+    expect(strict.pick("a").unknownKeys).toBe("reject");
+    expect(strict.pick("a").check({ a: 1, b: "" })).toBe(false);
+    expect(strict.partial().check({ c: 1 })).toBe(false);
+    expect(strict.extend({ c: t.number }).check({ a: 1, b: "", c: 1 })).toBe(
+      true
+    );
+  });
+});
+
+describe("Default values", () => {
+  const config = t.object({
+    host: t.string,
+    port: t.optional(t.number, { default: 8080 }),
+    tags: t.optional(t.array(t.string), { default: ["web"] }),
+    debug: t.optional(t.boolean),
+  });
+
+  it("should make defaulted fields required in the output type", () => {
+    const output: t.TypeOf<typeof config> = {
+      host: "localhost",
+      port: 80,
+      tags: [],
+    };
+    const input: t.InputOf<typeof config> = { host: "localhost" };
+    expect(config.check(output)).toBe(true);
+    expect(config.check(input)).toBe(true);
+  });
+
+  it("should fill in missing and undefined fields", () => {
+    expect(t.parse(config, { host: "localhost" }).unwrap()).toStrictEqual({
+      host: "localhost",
+      port: 8080,
+      tags: ["web"],
+    });
+    expect(
+      t.parse(config, { host: "localhost", port: undefined }).unwrap()
+    ).toStrictEqual({
+      host: "localhost",
+      port: 8080,
+      tags: ["web"],
+    });
+  });
+
+  it("should keep provided values", () => {
+    expect(
+      t
+        .parse(config, { host: "localhost", port: 0, tags: [], debug: true })
+        .unwrap()
+    ).toStrictEqual({
+      host: "localhost",
+      port: 0,
+      tags: [],
+      debug: true,
+    });
+  });
+
+  it("should still check provided values", () => {
+    const result = t.parse(config, { host: "localhost", port: "80" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].field).toEqual(["port"]);
+      expect(result.errors[0].message).toBe("expected number");
+    }
+  });
+
+  it("should give each parse its own copy of the default", () => {
+    const first = t.parse(config, { host: "a" }).unwrap();
+    first.tags.push("changed");
+    expect(t.parse(config, { host: "b" }).unwrap().tags).toEqual(["web"]);
+
+    class Clock {}
+    const clock = new Clock();
+    const nested = t.object({
+      options: t.optional(t.any, {
+        default: { when: new Date(0), ids: new Set([1]), clock },
+      }),
+    });
+    const options = t.parse(nested, {}).unwrap().options;
+    expect(options).toEqual({ when: new Date(0), ids: new Set([1]), clock });
+    expect(options).not.toBe(nested.shape.options.default);
+    expect(options.when).not.toBe(nested.shape.options.default.when);
+    expect(options.clock).toBe(clock);
+  });
+
+  it("should fill in defaults in nested objects", () => {
+    const schema = t.array(t.object({ server: config }));
+    expect(t.parse(schema, [{ server: { host: "a" } }]).unwrap()).toEqual([
+      { server: { host: "a", port: 8080, tags: ["web"] } },
+    ]);
+  });
+
+  it("should show defaults in type strings", () => {
+    expect(config.toTypeString()).toBe(
+      '{ host: string; port?: number /* default: 8080 */; tags?: string[] /* default: ["web"] */; debug?: boolean; }'
+    );
+    expect(
+      t.object({ s: t.optional(t.string, { default: "*/" }) }).toTypeString()
+    ).toBe('{ s?: string /* default: "*\\/" */; }');
+  });
+});
+
+describe("Records", () => {
+  const scores = t.record(t.number);
+  const flags = t.record(t.enum("read", "write"), t.boolean);
+
+  it("should infer record types", () => {
+    const a: t.TypeOf<typeof scores> = { alice: 1, bob: 2 };
+    const b: t.TypeOf<typeof flags> = { read: true };
+    expect(scores.check(a)).toBe(true);
+    expect(flags.check(b)).toBe(true);
+  });
+
+  it("should pass checks", () => {
+    expect(scores.check({})).toBe(true);
+    expect(scores.check({ alice: 1, bob: 2 })).toBe(true);
+    expect(flags.check({ read: true, write: false })).toBe(true);
+  });
+
+  it("should fail checks", () => {
+    expect(scores.check({ alice: "1" })).toBe(false);
+    expect(scores.check([1, 2])).toBe(false);
+    expect(scores.check("abc")).toBe(false);
+    expect(scores.check(null)).toBe(false);
+    expect(flags.check({ read: true, execute: false })).toBe(false);
+  });
+
+  it("should collect errors under each offending key", () => {
+    const result = t.parse(t.object({ scores }), {
+      scores: { alice: 1, bob: "2", carol: null },
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0].field).toEqual(["scores", "bob"]);
+      expect(result.errors[0].message).toBe("expected number");
+      expect(result.errors[1].field).toEqual(["scores", "carol"]);
+      expect(result.errors[1].message).toBe("expected number");
+    }
+  });
+
+  it("should report invalid keys", () => {
+    const result = t.parse(flags, { read: true, execute: "yes" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].field).toEqual(["execute"]);
+      expect(result.errors[0].message).toBe('expected "read" | "write"');
+    }
+
+    const lowercase = t.record(
+      t.string.refine((s) => s === s.toLowerCase(), "key must be lowercase"),
+      t.number
+    );
+    const result2 = t.parse(lowercase, { ok: 1, NotOk: 2 });
+    expect(result2.success).toBe(false);
+    if (!result2.success) {
+      expect(result2.errors.length).toBe(1);
+      expect(result2.errors[0].field).toEqual(["NotOk"]);
+      expect(result2.errors[0].message).toBe("key must be lowercase");
+    }
+  });
+
+  it("should sanitize into a fresh plain object", () => {
+    class Scores {
+      alice = 1;
+    }
+    const input = new Scores();
+    const result = scores.sanitize(input as any);
+    expect(result.value).not.toBe(input);
+    expect(result.value).toStrictEqual({ alice: 1 });
+
+    const nested = t.record(t.object({ id: t.number }));
+    expect(
+      nested.sanitize({ a: { id: 1, extra: true } } as any).value
+    ).toStrictEqual({ a: { id: 1 } });
+  });
+
+  it("should keep __proto__ keys as ordinary properties", () => {
+    const parsed = t.parseJSON(scores, '{"__proto__": 1, "a": 2}').unwrap();
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(Object.keys(parsed)).toEqual(["__proto__", "a"]);
+  });
+
+  it("should generate correct type strings", () => {
+    expect(scores.toTypeString()).toBe("{ [key: string]: number; }");
+    expect(flags.toTypeString()).toBe(
+      'Partial<Record<"read" | "write", boolean>>'
+    );
+    expect(t.array(t.record(t.or(t.string, t.number))).toTypeString()).toBe(
+      "{ [key: string]: string | number; }[]"
+    );
+  });
+});
+
+describe("Maps and sets", () => {
+  const sessions = t.map(t.string, t.object({ user: t.number }));
+  const ids = t.set(t.number);
+
+  it("should pass checks", () => {
+    expect(sessions.check(new Map())).toBe(true);
+    expect(sessions.check(new Map([["a", { user: 1 }]]))).toBe(true);
+    expect(ids.check(new Set())).toBe(true);
+    expect(ids.check(new Set([1, 2, 3]))).toBe(true);
+  });
+
+  it("should fail checks", () => {
+    expect(sessions.check(new Map([[1, { user: 1 }]]))).toBe(false);
+    expect(sessions.check(new Map([["a", { user: "1" }]]))).toBe(false);
+    expect(sessions.check({ a: { user: 1 } })).toBe(false);
+    expect(sessions.check(new Set())).toBe(false);
+    expect(ids.check(new Set([1, "2"]))).toBe(false);
+    expect(ids.check([1, 2])).toBe(false);
+    expect(ids.check(new Map())).toBe(false);
+  });
+
+  it("should report errors at the entry path", () => {
+    const schema = t.object({ sessions, ids });
+    const result = t.parse(schema, {
+      sessions: new Map<unknown, unknown>([
+        ["a", { user: 1 }],
+        ["b", { user: "2" }],
+      ]),
+      ids: new Set([1, 2, "3"]),
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0].field).toEqual(["sessions", 1, "value", "user"]);
+      expect(result.errors[0].message).toBe("expected number");
+      expect(result.errors[1].field).toEqual(["ids", 2]);
+      expect(result.errors[1].message).toBe("expected number");
+    }
+
+    const result2 = t.parse(sessions, new Map([[5, { user: 1 }]]));
+    expect(result2.success).toBe(false);
+    if (!result2.success) {
+      expect(result2.errors[0].field).toEqual([0, "key"]);
+      expect(result2.errors[0].message).toBe("expected string");
+      expect(result2.errors[0].toString()).toBe("[0].key: expected string");
+    }
+
+    const result3 = t.parse(ids, [1]);
+    expect(result3.success).toBe(false);
+    if (!result3.success) {
+      expect(result3.errors[0].message).toBe("expected Set");
+    }
+  });
+
+  it("should sanitize into new instances", () => {
+    const input = new Map([["a", { user: 1, extra: true }]]);
+    const result = sessions.sanitize(input);
+    expect(result.value).not.toBe(input);
+    expect(result.value).toBeInstanceOf(Map);
+    expect([...result.value]).toStrictEqual([["a", { user: 1 }]]);
+
+    const set = new Set([3, 1, 2]);
+    const sanitizedSet = ids.sanitize(set).value;
+    expect(sanitizedSet).not.toBe(set);
+    expect([...sanitizedSet]).toEqual([3, 1, 2]);
+  });
+
+  it("should generate correct type strings", () => {
+    expect(sessions.toTypeString()).toBe("Map<string, { user: number; }>");
+    expect(ids.toTypeString()).toBe("Set<number>");
+    expect(t.set(t.or(t.string, t.number)).toTypeString()).toBe(
+      "Set<string | number>"
+    );
+    expect(t.array(t.map(t.string, t.nullable(t.number))).toTypeString()).toBe(
+      "Map<string, number | null>[]"
+    );
+  });
+});
+
 describe("Tuple types", () => {
   describe("Basic tuple functionality", () => {
     const stringNumberTuple = t.tuple(t.string, t.number);
@@ -522,6 +970,119 @@ describe("Union types", () => {
   });
 });
 
+describe("discriminated unions", () => {
+  const event = t.discriminatedUnion(
+    "type",
+    t.object({ type: t.literal("click"), x: t.number, y: t.number }),
+    t.object({ type: t.literal("key"), key: t.string }),
+    t.object({ type: t.literal(3), data: t.optional(t.string) })
+  );
+
+  it("should infer the union type", () => {
+    const value: t.TypeOf<typeof event> = { type: "key", key: "a" };
+    const other: t.TypeOf<typeof event> = { type: "click", x: 1, y: 2 };
+    expect(event.check(value)).toBe(true);
+    expect(event.check(other)).toBe(true);
+  });
+
+  it("should pass checks", () => {
+    expect(event.check({ type: "click", x: 1, y: 2 })).toBe(true);
+    expect(event.check({ type: "key", key: "Enter" })).toBe(true);
+    expect(event.check({ type: 3 })).toBe(true);
+  });
+
+  it("should fail checks", () => {
+    expect(event.check({ type: "click", key: "Enter" })).toBe(false);
+    expect(event.check({ type: "scroll" })).toBe(false);
+    expect(event.check({})).toBe(false);
+    expect(event.check("click")).toBe(false);
+    expect(event.check(null)).toBe(false);
+  });
+
+  it("should report errors from the selected branch", () => {
+    const result = t.parse(event, { type: "click", x: "1", y: null });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0].field).toEqual(["x"]);
+      expect(result.errors[0].message).toBe("expected number");
+      expect(result.errors[1].field).toEqual(["y"]);
+      expect(result.errors[1].message).toBe("expected number");
+    }
+  });
+
+  it("should report nested errors with their full paths", () => {
+    const schema = t.object({ events: t.array(event) });
+    const result = t.parse(schema, {
+      events: [
+        { type: "key", key: "a" },
+        { type: "key", key: 5 },
+      ],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].field).toEqual(["events", 1, "key"]);
+      expect(result.errors[0].message).toBe("expected string");
+    }
+  });
+
+  it("should report unknown tags", () => {
+    const result = t.parse(event, { type: "scroll" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].field).toEqual(["type"]);
+      expect(result.errors[0].message).toBe(
+        'unknown tag, expected "click" | "key" | 3'
+      );
+    }
+
+    const result2 = t.parse(event, 5);
+    expect(result2.success).toBe(false);
+    if (!result2.success) {
+      expect(result2.errors[0].field).toEqual([]);
+      expect(result2.errors[0].message).toBe("expected object");
+    }
+  });
+
+  it("should sanitize using the selected branch", () => {
+    expect(
+      event.sanitize({ type: "key", key: "a", x: 1 } as any).value
+    ).toStrictEqual({ type: "key", key: "a" });
+    expect(event.sanitize({ type: 3, data: "d" }).value).toStrictEqual({
+      type: 3,
+      data: "d",
+    });
+  });
+
+  it("should generate correct type strings", () => {
+    expect(event.toTypeString()).toBe(
+      '{ type: "click"; x: number; y: number; } | { type: "key"; key: string; } | { type: 3; data?: string; }'
+    );
+    expect(t.array(event).toTypeString()).toBe(
+      '({ type: "click"; x: number; y: number; } | { type: "key"; key: string; } | { type: 3; data?: string; })[]'
+    );
+  });
+
+  it("should reject members without a literal tag", () => {
+    expect(() =>
+      t.discriminatedUnion(
+        "type",
+        t.object({ type: t.literal("a") }),
+        t.object({ type: t.string }) as any
+      )
+    ).toThrow();
+    expect(() =>
+      t.discriminatedUnion(
+        "type",
+        t.object({ type: t.literal("a") }),
+        t.object({ type: t.literal("a") })
+      )
+    ).toThrow();
+  });
+});
+
 describe("Intersection types", () => {
   const type = t.and(
     t.object({
@@ -871,55 +1432,318 @@ describe("Refinements", () => {
   });
 });
 
-describe("toTypeString", () => {
-  it("should generate correct strings for primitive types", () => {
-    expect(t.string.toTypeString()).toBe("string");
-    expect(t.number.toTypeString()).toBe("number");
-    expect(t.boolean.toTypeString()).toBe("boolean");
-    expect(t.null.toTypeString()).toBe("null");
-    expect(t.undefined.toTypeString()).toBe("undefined");
+describe("Transforms", () => {
+  const date = t.string.transform((s) => {
+    const d = new Date(s);
+    if (isNaN(d.getTime())) {
+      throw new Error("invalid date");
+    }
+    return d;
+  });
+  const list = t.string.transform((s) => s.split(","));
+
+  it("should track input and output types separately", () => {
+    const input: t.InputOf<typeof date> = "2020-01-01";
+    const output: t.TypeOf<typeof date> = new Date(input);
+    expect(output).toBeInstanceOf(Date);
+
+    const schema = t.object({ at: date, tags: t.optional(list) });
+    const objInput: t.InputOf<typeof schema> = { at: "2020-01-01" };
+    const objOutput: t.TypeOf<typeof schema> = {
+      at: new Date(),
+      tags: ["a"],
+    };
+    expect(schema.check(objInput)).toBe(true);
+    expect(schema.check(objOutput)).toBe(false);
   });
 
-  it("should generate correct strings for literal types", () => {
-    expect(t.literal("hello").toTypeString()).toBe('"hello"');
-    expect(t.literal(42).toTypeString()).toBe("42");
-    expect(t.literal(true).toTypeString()).toBe("true");
+  it("should check the input type", () => {
+    expect(date.check("2020-01-01")).toBe(true);
+    expect(date.check(new Date())).toBe(false);
+    expect(date.check(5)).toBe(false);
   });
 
-  it("should generate correct strings for enum types", () => {
-    const enumType = t.enum("red", "green", "blue", 42);
-    expect(enumType.toTypeString()).toBe('"red" | "green" | "blue" | 42');
+  it("should transform values when parsing", () => {
+    const schema = t.object({
+      at: date,
+      tags: list,
+      cents: t.string.transform((s) => Number(s) / 100),
+    });
+    const result = t.parse(schema, {
+      at: "2020-01-01T00:00:00.000Z",
+      tags: "a,b",
+      cents: "1250",
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.at).toBeInstanceOf(Date);
+      expect(result.value.at.toISOString()).toBe("2020-01-01T00:00:00.000Z");
+      expect(result.value.tags).toEqual(["a", "b"]);
+      expect(result.value.cents).toBe(12.5);
+    }
   });
 
-  it("should generate correct strings for array types", () => {
-    expect(t.array(t.string).toTypeString()).toBe("string[]");
-    expect(t.array(t.number).toTypeString()).toBe("number[]");
+  it("should chain transforms", () => {
+    const length = list.transform((parts) => parts.length);
+    expect(t.parse(length, "a,b,c").unwrap()).toBe(3);
+    expect(length.sanitize("a").value).toBe(1);
   });
 
-  it("should generate correct strings for object types", () => {
-    const objType = t.object({
-      name: t.string,
-      age: t.number,
-      active: t.optional(t.boolean),
+  it("should transform inside arrays, tuples, unions and records", () => {
+    expect(t.parse(t.array(list), ["a", "b,c"]).unwrap()).toEqual([
+      ["a"],
+      ["b", "c"],
+    ]);
+    expect(t.parse(t.tuple(t.number, list), [1, "x,y"]).unwrap()).toEqual([
+      1,
+      ["x", "y"],
+    ]);
+    expect(t.parse(t.or(t.number, list), "x,y").unwrap()).toEqual(["x", "y"]);
+    expect(t.parse(t.record(list), { k: "x,y" }).unwrap()).toEqual({
+      k: ["x", "y"],
     });
-    expect(objType.toTypeString()).toBe(
-      "{ name: string; age: number; active?: boolean; }"
-    );
+    expect(t.parse(t.nullable(list), null).unwrap()).toBe(null);
   });
 
-  it("should generate correct strings for union types", () => {
-    const unionType = t.or(t.string, t.number);
-    expect(unionType.toTypeString()).toBe("string | number");
+  it("should report exceptions as parse errors at the field path", () => {
+    const schema = t.object({
+      events: t.array(t.object({ at: date })),
+      created: date,
+    });
+    const result = t.parse(schema, {
+      events: [{ at: "2020-01-01" }, { at: "not a date" }],
+      created: "also not a date",
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0]).toBeInstanceOf(t.ParseError);
+      expect(result.errors[0].field).toEqual(["events", 1, "at"]);
+      expect(result.errors[0].message).toBe("invalid date");
+      expect(result.errors[1].field).toEqual(["created"]);
+      expect(result.errors[1].message).toBe("invalid date");
+      expect(() => result.unwrap()).toThrow("invalid date");
+    }
+
+    const result2 = t.parse(t.map(t.string, date), new Map([["a", "bad"]]));
+    expect(result2.success).toBe(false);
+    if (!result2.success) {
+      expect(result2.errors[0].field).toEqual([0, "value"]);
+    }
   });
 
-  it("should generate correct strings for intersection types", () => {
-    const intersectionType = t.and(
-      t.object({ x: t.number }),
-      t.object({ y: t.string })
-    );
-    expect(intersectionType.toTypeString()).toBe(
-      "{ x: number; } & { y: string; }"
-    );
+  it("should report non-Error exceptions", () => {
+    const checker = t.number.transform((n) => {
+      if (n < 0) {
+        throw "negative";
+      }
+      return n;
+    });
+    const result = t.parse(checker, -1);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0].message).toBe("negative");
+      expect(result.errors[0].field).toEqual([]);
+    }
+  });
+
+  it("should throw a ParseError when sanitizing directly", () => {
+    expect(() => date.sanitize("bad")).toThrow(t.ParseError);
+    expect(() => t.array(date).sanitize(["bad"])).toThrow("invalid date");
+  });
+
+  it("should not run transforms on values that fail checks", () => {
+    const fn = jest.fn((s: string) => s.length);
+    const checker = t.object({ a: t.string.transform(fn), b: t.number });
+    const result = t.parse(checker, { a: "abc", b: "x" });
+    expect(result.success).toBe(false);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should apply refinements to the input", () => {
+    const checker = t.string
+      .refine((s) => s.length > 0, "must not be empty")
+      .transform((s) => s.toUpperCase());
+    expect(t.parse(checker, "abc").unwrap()).toBe("ABC");
+    const result = t.parse(checker, "");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0].message).toBe("must not be empty");
+    }
+  });
+
+  it("should describe the input type", () => {
+    expect(date.toTypeString()).toBe("string");
+    expect(t.object({ at: date }).toTypeString()).toBe("{ at: string; }");
+  });
+});
+
+describe("Coercion", () => {
+  it("should coerce numbers", () => {
+    expect(t.parse(t.coerce.number, "42").unwrap()).toBe(42);
+    expect(t.parse(t.coerce.number, " -1.5e3 ").unwrap()).toBe(-1500);
+    expect(t.parse(t.coerce.number, ".5").unwrap()).toBe(0.5);
+    expect(t.parse(t.coerce.number, 7).unwrap()).toBe(7);
+    expect(t.coerce.number.check("12abc")).toBe(false);
+    expect(t.coerce.number.check("")).toBe(false);
+    expect(t.coerce.number.check("0x10")).toBe(false);
+    expect(t.coerce.number.check("NaN")).toBe(false);
+    expect(t.coerce.number.check("Infinity")).toBe(false);
+    expect(t.coerce.number.check("1e400")).toBe(false);
+    expect(t.coerce.number.check("-1e400")).toBe(false);
+    expect(t.coerce.number.check(NaN)).toBe(false);
+    expect(t.coerce.number.check(null)).toBe(false);
+    expect(t.coerce.number.check(true)).toBe(false);
+  });
+
+  it("should coerce booleans", () => {
+    expect(t.parse(t.coerce.boolean, "true").unwrap()).toBe(true);
+    expect(t.parse(t.coerce.boolean, "1").unwrap()).toBe(true);
+    expect(t.parse(t.coerce.boolean, 1).unwrap()).toBe(true);
+    expect(t.parse(t.coerce.boolean, "false").unwrap()).toBe(false);
+    expect(t.parse(t.coerce.boolean, "0").unwrap()).toBe(false);
+    expect(t.parse(t.coerce.boolean, false).unwrap()).toBe(false);
+    expect(t.coerce.boolean.check("yes")).toBe(false);
+    expect(t.coerce.boolean.check("TRUE")).toBe(false);
+    expect(t.coerce.boolean.check(2)).toBe(false);
+    expect(t.coerce.boolean.check("")).toBe(false);
+  });
+
+  it("should coerce bigints", () => {
+    expect(t.parse(t.coerce.bigint, "9007199254740993").unwrap()).toBe(
+      9007199254740993n
+    );
+    expect(t.parse(t.coerce.bigint, 12).unwrap()).toBe(12n);
+    expect(t.parse(t.coerce.bigint, 5n).unwrap()).toBe(5n);
+    expect(t.coerce.bigint.check("1.5")).toBe(false);
+    expect(t.coerce.bigint.check(1.5)).toBe(false);
+    expect(t.coerce.bigint.check("12abc")).toBe(false);
+  });
+
+  it("should coerce dates", () => {
+    const parsed = t.parse(t.coerce.date, "2020-01-01T00:00:00.000Z").unwrap();
+    expect(parsed).toBeInstanceOf(Date);
+    expect(parsed.toISOString()).toBe("2020-01-01T00:00:00.000Z");
+    expect(t.parse(t.coerce.date, 0).unwrap().getTime()).toBe(0);
+
+    const date = new Date(5);
+    const copy = t.parse(t.coerce.date, date).unwrap();
+    expect(copy).not.toBe(date);
+    expect(copy.getTime()).toBe(5);
+
+    expect(t.coerce.date.check("not a date")).toBe(false);
+    expect(t.parse(t.coerce.date, "2024-02-29").unwrap().toISOString()).toBe(
+      "2024-02-29T00:00:00.000Z"
+    );
+    expect(
+      t.parse(t.coerce.date, "2024-05-01T12:30+02:00").unwrap().toISOString()
+    ).toBe("2024-05-01T10:30:00.000Z");
+    expect(t.coerce.date.check("2024-05-01 12:30:00.5Z")).toBe(true);
+    for (const garbage of [
+      "foo 12",
+      "1",
+      "x 5",
+      "May 1, 2024",
+      "2024-5-1",
+      "2024-02-30",
+      "2023-02-29",
+      "2024-13-01",
+      "2024-01-01T24:00Z",
+      "2024-01-01T10:00Zjunk",
+    ]) {
+      expect(t.coerce.date.check(garbage)).toBe(false);
+    }
+    expect(t.coerce.date.check("")).toBe(false);
+    expect(t.coerce.date.check(new Date(NaN))).toBe(false);
+    expect(t.coerce.date.check(null)).toBe(false);
+  });
+
+  it("should coerce query string values", () => {
+    const query = t.object({
+      page: t.coerce.number,
+      verbose: t.optional(t.coerce.boolean),
+    });
+    const params = Object.fromEntries(new URLSearchParams("page=3&verbose=1"));
+    const value: t.TypeOf<typeof query> = t.parse(query, params).unwrap();
+    expect(value).toStrictEqual({ page: 3, verbose: true });
+  });
+
+  it("should report coercion failures", () => {
+    const env = t.object({ PORT: t.coerce.number, DEBUG: t.coerce.boolean });
+    const result = t.parse(env, { PORT: "80a", DEBUG: null });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0].field).toEqual(["PORT"]);
+      expect(result.errors[0].message).toBe('cannot convert "80a" to number');
+      expect(result.errors[1].field).toEqual(["DEBUG"]);
+      expect(result.errors[1].message).toBe("expected boolean");
+    }
+  });
+
+  it("should describe the accepted input", () => {
+    expect(t.coerce.number.toTypeString()).toBe("number | string");
+    expect(t.array(t.coerce.date).toTypeString()).toBe(
+      "(Date | string | number)[]"
+    );
+  });
+
+  it("should check bigints", () => {
+    expect(t.bigint.check(1n)).toBe(true);
+    expect(t.bigint.check(1)).toBe(false);
+    expect(t.bigint.toTypeString()).toBe("bigint");
+  });
+});
+
+describe("toTypeString", () => {
+  it("should generate correct strings for primitive types", () => {
+    expect(t.string.toTypeString()).toBe("string");
+    expect(t.number.toTypeString()).toBe("number");
+    expect(t.boolean.toTypeString()).toBe("boolean");
+    expect(t.null.toTypeString()).toBe("null");
+    expect(t.undefined.toTypeString()).toBe("undefined");
+  });
+
+  it("should generate correct strings for literal types", () => {
+    expect(t.literal("hello").toTypeString()).toBe('"hello"');
+    expect(t.literal(42).toTypeString()).toBe("42");
+    expect(t.literal(true).toTypeString()).toBe("true");
+  });
+
+  it("should generate correct strings for enum types", () => {
+    const enumType = t.enum("red", "green", "blue", 42);
+    expect(enumType.toTypeString()).toBe('"red" | "green" | "blue" | 42');
+  });
+
+  it("should generate correct strings for array types", () => {
+    expect(t.array(t.string).toTypeString()).toBe("string[]");
+    expect(t.array(t.number).toTypeString()).toBe("number[]");
+  });
+
+  it("should generate correct strings for object types", () => {
+    const objType = t.object({
+      name: t.string,
+      age: t.number,
+      active: t.optional(t.boolean),
+    });
+    expect(objType.toTypeString()).toBe(
+      "{ name: string; age: number; active?: boolean; }"
+    );
+  });
+
+  it("should generate correct strings for union types", () => {
+    const unionType = t.or(t.string, t.number);
+    expect(unionType.toTypeString()).toBe("string | number");
+  });
+
+  it("should generate correct strings for intersection types", () => {
+    const intersectionType = t.and(
+      t.object({ x: t.number }),
+      t.object({ y: t.string })
+    );
+    expect(intersectionType.toTypeString()).toBe(
+      "{ x: number; } & { y: string; }"
+    );
   });
 
   it("should handle nested parentheses for complex union types", () => {
@@ -1681,6 +2505,2667 @@ describe("nominal type checker", () => {
   });
 });
 
+describe("lazy type checker", () => {
+  type Node = { value: number; children: Node[] };
+  const node: t.TypeChecker<Node> = t.lazy(
+    () =>
+      t.object({
+        value: t.number,
+        children: t.array(node),
+      }),
+    "Node"
+  );
+
+  it("should check recursive values", () => {
+    expect(node.check({ value: 1, children: [] })).toBe(true);
+    expect(
+      node.check({
+        value: 1,
+        children: [{ value: 2, children: [{ value: 3, children: [] }] }],
+      })
+    ).toBe(true);
+    expect(node.check({ value: 1, children: [{ value: "2" }] })).toBe(false);
+    expect(node.check(null)).toBe(false);
+  });
+
+  it("should sanitize recursive values", () => {
+    const input = {
+      value: 1,
+      extra: true,
+      children: [{ value: 2, children: [], extra: "removed" }],
+    };
+    expect(node.sanitize(input).value).toStrictEqual({
+      value: 1,
+      children: [{ value: 2, children: [] }],
+    });
+  });
+
+  it("should track field paths through recursion", () => {
+    const result = t.parse(node, {
+      value: 1,
+      children: [
+        { value: 2, children: [] },
+        { value: 3, children: [{ value: "4", children: [] }] },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].field).toEqual([
+        "children",
+        1,
+        "children",
+        0,
+        "value",
+      ]);
+      expect(result.errors[0].message).toBe("expected number");
+    }
+  });
+
+  it("should render recursive references by name", () => {
+    expect(node.toTypeString()).toBe("{ value: number; children: Node[]; }");
+    expect(t.array(node).toTypeString()).toBe(
+      "{ value: number; children: Node[]; }[]"
+    );
+  });
+
+  it("should support mutually recursive types", () => {
+    type Expr = number | { op: "neg"; arg: Expr } | Call;
+    type Call = { fn: string; args: Expr[] };
+    const expr: t.TypeChecker<Expr> = t.lazy(
+      () => t.or(t.number, t.object({ op: t.literal("neg"), arg: expr }), call),
+      "Expr"
+    );
+    const call: t.TypeChecker<Call> = t.lazy(
+      () => t.object({ fn: t.string, args: t.array(expr) }),
+      "Call"
+    );
+
+    expect(expr.check({ fn: "max", args: [1, { op: "neg", arg: 2 }] })).toBe(
+      true
+    );
+    expect(expr.check({ fn: "max", args: [1, { op: "neg", arg: "2" }] })).toBe(
+      false
+    );
+    expect(call.toTypeString()).toBe(
+      '{ fn: string; args: (number | { op: "neg"; arg: Expr; } | Call)[]; }'
+    );
+  });
+
+  it("should only resolve the inner checker once", () => {
+    const getter = jest.fn(() => t.string);
+    const checker = t.lazy(getter, "Str");
+    expect(getter).not.toHaveBeenCalled();
+    expect(checker.check("a")).toBe(true);
+    expect(checker.check(1)).toBe(false);
+    expect(checker.toTypeString()).toBe("string");
+    expect(getter).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("JSON Schema export", () => {
+  const $schema = "https://json-schema.org/draft/2020-12/schema";
+
+  it("should export primitives", () => {
+    expect(t.toJSONSchema(t.string)).toEqual({ $schema, type: "string" });
+    expect(t.toJSONSchema(t.number)).toEqual({ $schema, type: "number" });
+    expect(t.toJSONSchema(t.boolean)).toEqual({ $schema, type: "boolean" });
+    expect(t.toJSONSchema(t.null)).toEqual({ $schema, type: "null" });
+    expect(t.toJSONSchema(t.any)).toEqual({ $schema });
+    expect(t.toJSONSchema(t.unknown)).toEqual({ $schema });
+    expect(t.toJSONSchema(t.never)).toEqual({ $schema, not: {} });
+  });
+
+  it("should export literals, enums and unions", () => {
+    expect(t.toJSONSchema(t.literal("a"))).toEqual({ $schema, const: "a" });
+    expect(t.toJSONSchema(t.enum("a", 1, null))).toEqual({
+      $schema,
+      enum: ["a", 1, null],
+    });
+    expect(t.toJSONSchema(t.or(t.string, t.literal(1)))).toEqual({
+      $schema,
+      anyOf: [{ type: "string" }, { const: 1 }],
+    });
+    expect(t.toJSONSchema(t.nullable(t.number))).toEqual({
+      $schema,
+      anyOf: [{ type: "number" }, { type: "null" }],
+    });
+  });
+
+  it("should export objects", () => {
+    const schema = t.object({
+      id: t.number,
+      name: t.optional(t.string),
+      port: t.optional(t.number, { default: 80 }),
+      tags: t.array(t.string),
+    });
+    expect(t.toJSONSchema(schema)).toEqual({
+      $schema,
+      type: "object",
+      properties: {
+        id: { type: "number" },
+        name: { type: "string" },
+        port: { type: "number", default: 80 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["id", "tags"],
+    });
+    expect(t.toJSONSchema(t.strictObject({ a: t.optional(t.string) }))).toEqual(
+      {
+        $schema,
+        type: "object",
+        properties: { a: { type: "string" } },
+        additionalProperties: false,
+      }
+    );
+  });
+
+  it("should export tuples, intersections and records", () => {
+    expect(t.toJSONSchema(t.tuple(t.string, t.number))).toEqual({
+      $schema,
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+    expect(t.toJSONSchema(t.tuple())).toEqual({
+      $schema,
+      type: "array",
+      items: false,
+      minItems: 0,
+      maxItems: 0,
+    });
+    expect(
+      t.toJSONSchema(
+        t.and(t.object({ a: t.number }), t.object({ b: t.number }))
+      )
+    ).toEqual({
+      $schema,
+      allOf: [
+        {
+          type: "object",
+          properties: { a: { type: "number" } },
+          required: ["a"],
+        },
+        {
+          type: "object",
+          properties: { b: { type: "number" } },
+          required: ["b"],
+        },
+      ],
+    });
+    expect(t.toJSONSchema(t.record(t.enum("a", "b"), t.number))).toEqual({
+      $schema,
+      type: "object",
+      propertyNames: { enum: ["a", "b"] },
+      additionalProperties: { type: "number" },
+    });
+  });
+
+  it("should export discriminated unions", () => {
+    const event = t.discriminatedUnion(
+      "type",
+      t.object({ type: t.literal("a") }),
+      t.object({ type: t.literal("b") })
+    );
+    expect(t.toJSONSchema(event)).toEqual({
+      $schema,
+      oneOf: [
+        {
+          type: "object",
+          properties: { type: { const: "a" } },
+          required: ["type"],
+        },
+        {
+          type: "object",
+          properties: { type: { const: "b" } },
+          required: ["type"],
+        },
+      ],
+    });
+  });
+
+  it("should export recursive types as definitions", () => {
+    type Node = { children: Node[] };
+    const node: t.TypeChecker<Node> = t.lazy(
+      () => t.object({ children: t.array(node) }),
+      "Node"
+    );
+    expect(t.toJSONSchema(t.object({ root: node, other: node }))).toEqual({
+      $schema,
+      type: "object",
+      properties: {
+        root: { $ref: "#/$defs/Node" },
+        other: { $ref: "#/$defs/Node" },
+      },
+      required: ["root", "other"],
+      $defs: {
+        Node: {
+          type: "object",
+          properties: {
+            children: { type: "array", items: { $ref: "#/$defs/Node" } },
+          },
+          required: ["children"],
+        },
+      },
+    });
+
+    const a = t.lazy(() => t.string, "Name");
+    const b = t.lazy(() => t.number, "Name");
+    expect(t.toJSONSchema(t.tuple(a, b))).toMatchObject({
+      prefixItems: [{ $ref: "#/$defs/Name" }, { $ref: "#/$defs/Name2" }],
+      $defs: { Name: { type: "string" }, Name2: { type: "number" } },
+    });
+  });
+
+  it("should export the input of transforms and coercions", () => {
+    expect(t.toJSONSchema(t.string.transform((s) => s.length))).toEqual({
+      $schema,
+      type: "string",
+    });
+    expect(t.toJSONSchema(t.coerce.number)).toEqual({
+      $schema,
+      type: ["number", "string"],
+    });
+  });
+
+  it("should report unrepresentable types", () => {
+    const id = t.nominal((v): v is string => typeof v === "string", "Id");
+    expect(() => t.toJSONSchema(t.object({ id }))).toThrow(
+      "Id cannot be represented in JSON Schema"
+    );
+    expect(() => t.toJSONSchema(t.class(Date))).toThrow(
+      "Date cannot be represented in JSON Schema"
+    );
+    expect(() => t.toJSONSchema(t.set(t.string))).toThrow(
+      "Set<string> cannot be represented in JSON Schema"
+    );
+    expect(() => t.toJSONSchema(t.undefined)).toThrow();
+    expect(() => t.toJSONSchema(t.bigint)).toThrow();
+    expect(
+      t.toJSONSchema(t.object({ id }), { unrepresentable: "any" })
+    ).toEqual({
+      $schema,
+      type: "object",
+      properties: { id: {} },
+      required: ["id"],
+    });
+  });
+
+  it("should let checkers contribute keywords", () => {
+    const uuid = t
+      .nominal((v): v is string => typeof v === "string", "Uuid")
+      .withJSONSchema({ type: "string", format: "uuid" });
+    const slug = t.string
+      .refine((s) => /^[a-z-]+$/.test(s))
+      .withJSONSchema({ pattern: "^[a-z-]+$" });
+    const date = t.class(Date).withJSONSchema({
+      type: "string",
+      format: "date-time",
+    });
+    expect(
+      t.toJSONSchema(t.object({ id: uuid, slug, at: date })).properties
+    ).toEqual({
+      id: { type: "string", format: "uuid" },
+      slug: { type: "string", pattern: "^[a-z-]+$" },
+      at: { type: "string", format: "date-time" },
+    });
+    expect(slug.check("a-b")).toBe(true);
+    expect(slug.check("A")).toBe(false);
+  });
+
+  it("should ignore refinements without contributed keywords", () => {
+    expect(t.toJSONSchema(t.number.refine((n) => n > 0))).toEqual({
+      $schema,
+      type: "number",
+    });
+  });
+});
+
+describe("JSON Schema import", () => {
+  it("should build checkers for primitive types", () => {
+    expect(t.fromJSONSchema({ type: "string" }).check("a")).toBe(true);
+    expect(t.fromJSONSchema({ type: "string" }).check(1)).toBe(false);
+    expect(t.fromJSONSchema({ type: "integer" }).check(1)).toBe(true);
+    expect(t.fromJSONSchema({ type: "integer" }).check(1.5)).toBe(false);
+    expect(t.fromJSONSchema({ type: "null" }).check(null)).toBe(true);
+    expect(t.fromJSONSchema({ type: ["string", "null"] }).check(null)).toBe(
+      true
+    );
+    expect(t.fromJSONSchema({ type: ["string", "null"] }).check(1)).toBe(false);
+    expect(t.fromJSONSchema({}).check({ anything: 1 })).toBe(true);
+    expect(t.fromJSONSchema(true).check(1)).toBe(true);
+    expect(t.fromJSONSchema(false).check(1)).toBe(false);
+  });
+
+  it("should report errors with the same paths as hand-written checkers", () => {
+    const imported = t.fromJSONSchema({
+      type: "object",
+      properties: {
+        user: {
+          type: "object",
+          properties: { name: { type: "string" }, age: { type: "number" } },
+          required: ["name"],
+        },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["user", "tags"],
+    });
+    const handWritten = t.object({
+      user: t.object({ name: t.string, age: t.optional(t.number) }),
+      tags: t.array(t.string),
+    });
+
+    for (const value of [
+      { user: { name: 1, age: "2" }, tags: ["a", 2] },
+      { user: null, tags: "a" },
+      { tags: [] },
+      "not an object",
+    ]) {
+      const expected = t.parse(handWritten, value);
+      const actual = t.parse(imported, value);
+      expect(actual.success).toBe(false);
+      expect(actual.errors?.map((e) => [e.field, e.message])).toEqual(
+        expected.errors?.map((e) => [e.field, e.message])
+      );
+    }
+
+    expect(
+      t.parse(imported, { user: { name: "n", extra: 1 }, tags: [] }).unwrap()
+    ).toEqual({ user: { name: "n", extra: 1 }, tags: [] });
+  });
+
+  it("should support enum and const", () => {
+    const color = t.fromJSONSchema({ enum: ["red", "green", null] });
+    expect(color.check("red")).toBe(true);
+    expect(color.check(null)).toBe(true);
+    expect(color.check("blue")).toBe(false);
+    const result = t.parse(color, "blue");
+    expect(result.errors?.[0]?.message).toBe('expected "red" | "green" | null');
+
+    const point = t.fromJSONSchema({ const: { x: 1, y: [2] } });
+    expect(point.check({ y: [2], x: 1 })).toBe(true);
+    expect(point.check({ x: 1, y: [3] })).toBe(false);
+    expect(t.fromJSONSchema({ const: 5 }).check(5)).toBe(true);
+  });
+
+  it("should support anyOf, allOf and oneOf", () => {
+    const anyOf = t.fromJSONSchema({
+      anyOf: [{ type: "string" }, { type: "number" }],
+    });
+    expect(anyOf.check("a")).toBe(true);
+    expect(anyOf.check(true)).toBe(false);
+
+    const allOf = t.fromJSONSchema({
+      allOf: [
+        {
+          type: "object",
+          properties: { a: { type: "number" } },
+          required: ["a"],
+        },
+        {
+          type: "object",
+          properties: { b: { type: "string" } },
+          required: ["b"],
+        },
+      ],
+    });
+    expect(allOf.check({ a: 1, b: "x" })).toBe(true);
+    const allOfResult = t.parse(allOf, { a: "1" });
+    expect(allOfResult.errors?.map((e) => e.field)).toEqual([["a"], ["b"]]);
+    expect(t.parse(allOf, { a: 1, b: "x" }).unwrap()).toEqual({ a: 1, b: "x" });
+
+    const oneOf = t.fromJSONSchema({
+      oneOf: [{ type: "integer" }, { type: "number", minimum: 0 }],
+    });
+    expect(oneOf.check(-1)).toBe(true);
+    expect(oneOf.check(0.5)).toBe(true);
+    expect(oneOf.check(1)).toBe(false);
+    expect(oneOf.check("1")).toBe(false);
+    const oneOfResult = t.parse(oneOf, 1);
+    expect(oneOfResult.errors?.[0]?.message).toBe(
+      "expected exactly one of number | number"
+    );
+  });
+
+  it("should resolve local references", () => {
+    const tree = t.fromJSONSchema({
+      $ref: "#/$defs/Node",
+      $defs: {
+        Node: {
+          type: "object",
+          properties: {
+            value: { type: "number" },
+            children: { type: "array", items: { $ref: "#/$defs/Node" } },
+          },
+          required: ["value"],
+        },
+      },
+    });
+    expect(tree.check({ value: 1, children: [{ value: 2 }] })).toBe(true);
+    const result = t.parse(tree, {
+      value: 1,
+      children: [{ value: 2, children: [{ value: "3" }] }],
+    });
+    expect(result.errors?.map((e) => e.field)).toEqual([
+      ["children", 0, "children", 0, "value"],
+    ]);
+
+    const list = t.fromJSONSchema({
+      type: "object",
+      properties: {
+        next: { anyOf: [{ $ref: "#" }, { type: "null" }] },
+      },
+      required: ["next"],
+    });
+    expect(list.check({ next: { next: null } })).toBe(true);
+    expect(list.check({ next: { next: 1 } })).toBe(false);
+
+    const legacy = t.fromJSONSchema({
+      definitions: { "a/b": { type: "string" } },
+      $ref: "#/definitions/a~1b",
+    });
+    expect(legacy.check("x")).toBe(true);
+    expect(legacy.check(1)).toBe(false);
+
+    expect(() => t.fromJSONSchema({ $ref: "other.json" })).toThrow();
+    expect(() =>
+      t.fromJSONSchema({ $ref: "#/$defs/Missing" }).check(1)
+    ).toThrow();
+  });
+
+  it("should support additionalProperties", () => {
+    const closed = t.fromJSONSchema({
+      type: "object",
+      properties: { a: { type: "number" } },
+      additionalProperties: false,
+    });
+    expect(closed.check({ a: 1 })).toBe(true);
+    expect(t.parse(closed, { a: 1, b: 2 }).errors?.[0]?.field).toEqual(["b"]);
+
+    const map = t.fromJSONSchema({
+      type: "object",
+      properties: { id: { type: "string" } },
+      additionalProperties: { type: "number" },
+    });
+    expect(map.check({ id: "x", a: 1, b: 2 })).toBe(true);
+    const result = t.parse(map, { id: "x", a: 1, b: "2" });
+    expect(result.errors?.map((e) => [e.field, e.message])).toEqual([
+      [["b"], "expected number"],
+    ]);
+    expect(t.parse(map, { id: "x", a: 1 }).unwrap()).toEqual({ id: "x", a: 1 });
+  });
+
+  it("should support prefixItems", () => {
+    const pair = t.fromJSONSchema({
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+    });
+    expect(pair.check(["a", 1])).toBe(true);
+    expect(pair.check(["a"])).toBe(true);
+    expect(pair.check(["a", 1, 2])).toBe(false);
+    expect(t.parse(pair, [1, "a"]).errors?.map((e) => e.field)).toEqual([
+      [0],
+      [1],
+    ]);
+  });
+
+  it("should support min and max constraints", () => {
+    const name = t.fromJSONSchema({
+      type: "string",
+      minLength: 2,
+      maxLength: 4,
+      pattern: "^[a-z]+$",
+    });
+    expect(name.check("abc")).toBe(true);
+    expect(t.parse(name, "a").errors?.[0]?.message).toBe(
+      "expected string of length at least 2"
+    );
+    expect(t.parse(name, "abcde").errors?.[0]?.message).toBe(
+      "expected string of length at most 4"
+    );
+    expect(t.parse(name, "ABC").errors?.[0]?.message).toBe(
+      "expected string matching /^[a-z]+$/u"
+    );
+
+    const percent = t.fromJSONSchema({
+      type: "number",
+      minimum: 0,
+      exclusiveMaximum: 100,
+      multipleOf: 0.5,
+    });
+    expect(percent.check(99.5)).toBe(true);
+    expect(percent.check(100)).toBe(false);
+    expect(percent.check(-1)).toBe(false);
+    expect(percent.check(1.25)).toBe(false);
+
+    const list = t.fromJSONSchema({
+      type: "array",
+      minItems: 1,
+      maxItems: 2,
+      uniqueItems: true,
+    });
+    expect(list.check([1])).toBe(true);
+    expect(list.check([])).toBe(false);
+    expect(list.check([1, 2, 3])).toBe(false);
+    expect(list.check([{ a: 1 }, { a: 1 }])).toBe(false);
+
+    const props = t.fromJSONSchema({ type: "object", minProperties: 1 });
+    expect(props.check({})).toBe(false);
+    expect(props.check({ a: 1 })).toBe(true);
+  });
+
+  it("should apply type-specific keywords only to matching types", () => {
+    const schema = t.fromJSONSchema({ minLength: 2, minimum: 5 });
+    expect(schema.check("ab")).toBe(true);
+    expect(schema.check("a")).toBe(false);
+    expect(schema.check(5)).toBe(true);
+    expect(schema.check(4)).toBe(false);
+    expect(schema.check(null)).toBe(true);
+  });
+
+  it("should require listed keys without property schemas", () => {
+    const schema = t.fromJSONSchema({ type: "object", required: ["id"] });
+    expect(schema.check({ id: null })).toBe(true);
+    const result = t.parse(schema, {});
+    expect(result.errors?.map((e) => [e.field, e.message])).toEqual([
+      [["id"], "expected value"],
+    ]);
+  });
+
+  it("should round-trip exported schemas", () => {
+    const original = t.object({
+      id: t.number,
+      kind: t.enum("a", "b"),
+      pair: t.tuple(t.string, t.boolean),
+      meta: t.optional(t.record(t.string)),
+    });
+    const imported = t.fromJSONSchema(t.toJSONSchema(original));
+    for (const value of [
+      { id: 1, kind: "a", pair: ["x", true] },
+      { id: 1, kind: "c", pair: ["x", true], meta: { a: 1 } },
+      { id: "1", kind: "a", pair: ["x"] },
+    ]) {
+      expect(imported.check(value)).toBe(original.check(value));
+    }
+  });
+});
+
+describe("TypeScript declarations", () => {
+  // type-checks generated modules, returning the compiler's error messages
+  function compileErrors(files: { [fileName: string]: string }): string[] {
+    const options: ts.CompilerOptions = {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      types: [],
+    };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    const fileExists = host.fileExists;
+    host.getSourceFile = (name, languageVersion, ...rest) =>
+      files[name] !== undefined
+        ? ts.createSourceFile(name, files[name], languageVersion)
+        : getSourceFile(name, languageVersion, ...rest);
+    host.fileExists = (name) => files[name] !== undefined || fileExists(name);
+    host.directoryExists = (name) =>
+      name === "/generated" || ts.sys.directoryExists(name);
+    const program = ts.createProgram(Object.keys(files), options, host);
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+  }
+
+  type Node = { value: number; children: Node[] };
+  const Tree: t.TypeChecker<Node> = t.lazy(
+    () => t.object({ value: t.number, children: t.array(Tree) }),
+    "Tree"
+  );
+  const Address = t.object({
+    street: t.string,
+    "zip-code": t.optional(t.number),
+  });
+  const User = t.object({
+    name: t.string,
+    home: Address,
+    work: t.nullable(Address),
+    tags: t.array(t.or(t.string, t.array(t.number))),
+    pair: t.tuple(t.string, t.array(t.number)),
+    flags: t.record(t.enum("read", "write"), t.boolean),
+    scores: t.map(t.string, t.number),
+    ids: t.set(t.bigint),
+    role: t.optional(t.enum("admin", "user"), { default: "user" }),
+    tree: Tree,
+  });
+
+  it("should declare named checkers and reuse their names", () => {
+    expect(t.toTypeScript({ User, Address })).toBe(
+      "export type User = { name: string; home: Address; work: Address | null; " +
+        "tags: (string | number[])[]; pair: [string, number[]]; " +
+        'flags: Partial<Record<"read" | "write", boolean>>; ' +
+        "scores: Map<string, number>; ids: Set<bigint>; " +
+        'role?: "admin" | "user" /* default: "user" */; tree: Tree; };\n' +
+        'export type Address = { street: string; "zip-code"?: number; };\n' +
+        "export type Tree = { value: number; children: Tree[]; };\n"
+    );
+  });
+
+  it("should emit readonly modifiers", () => {
+    expect(
+      t.toTypeScript(
+        {
+          Config: t.object({
+            hosts: t.array(t.string),
+            matrix: t.array(t.array(t.number)),
+            pair: t.tuple(t.string, t.number),
+            env: t.record(t.string),
+            limits: t.map(t.string, t.number),
+            port: t.optional(t.number),
+          }),
+        },
+        { readonly: true }
+      )
+    ).toBe(
+      "export type Config = { readonly hosts: readonly string[]; " +
+        "readonly matrix: readonly (readonly number[])[]; " +
+        "readonly pair: readonly [string, number]; " +
+        "readonly env: { readonly [key: string]: string; }; " +
+        "readonly limits: ReadonlyMap<string, number>; " +
+        "readonly port?: number; };\n"
+    );
+  });
+
+  it("should produce output that TypeScript accepts", () => {
+    expect(
+      compileErrors({
+        "/generated/types.ts": t.toTypeScript({ User, Address }),
+        "/generated/readonly.ts": t.toTypeScript({ User }, { readonly: true }),
+        "/generated/usage.ts":
+          'import type { User } from "./types";\n' +
+          'import type { User as ReadonlyUser } from "./readonly";\n' +
+          "const user: User = { name: 'a', home: { street: 's' }, work: null, " +
+          "tags: ['x', [1]], pair: ['p', []], flags: { read: true }, " +
+          "scores: new Map(), ids: new Set([1n]), " +
+          "tree: { value: 1, children: [] } };\n" +
+          "const frozen: ReadonlyUser = user;\n" +
+          "// @ts-expect-error\n" +
+          "frozen.tags.push('y');\n" +
+          "export {};\n",
+      })
+    ).toEqual([]);
+  });
+
+  it("should give every name its own declaration", () => {
+    const Other: t.TypeChecker<any> = t.lazy(() => t.array(Other), "Address");
+    expect(
+      t.toTypeScript({ Address, Copy: Address, List: t.array(Other) })
+    ).toBe(
+      'export type Address = { street: string; "zip-code"?: number; };\n' +
+        "export type List = Address2[];\n" +
+        "export type Address2 = Address2[];\n" +
+        "export type Copy = Address;\n"
+    );
+  });
+
+  it("should reject types that cannot be declared", () => {
+    const Email = t.nominal(
+      (value): value is string => typeof value === "string",
+      "Email"
+    );
+    expect(() =>
+      t.toTypeScript({ Contact: t.object({ email: Email }) })
+    ).toThrow("Email cannot be represented in a TypeScript declaration");
+    expect(() => t.toTypeScript({ Created: t.class(Date) })).toThrow();
+    expect(
+      t.toTypeScript(
+        { Contact: t.object({ email: Email }) },
+        { unrepresentable: "unknown" }
+      )
+    ).toBe("export type Contact = { email: unknown; };\n");
+    expect(() => t.toTypeScript({ "not-a-name": t.string })).toThrow(
+      'invalid type name "not-a-name"'
+    );
+    expect(() => t.toTypeScript({ string: t.string })).toThrow();
+    expect(Email.toTypeString()).toBe("Email");
+  });
+});
+
+describe("compiled checkers", () => {
+  type Node = { value: number; children: Node[] };
+  const Tree: t.TypeChecker<Node> = t.lazy(
+    () => t.object({ value: t.number, children: t.array(Tree) }),
+    "Tree"
+  );
+  const Shape = t.discriminatedUnion(
+    "kind",
+    t.object({ kind: t.literal("circle"), radius: t.number }),
+    t.object({ kind: t.literal("square"), size: t.number })
+  );
+  const checkers: t.TypeChecker<any, any>[] = [
+    t.object({
+      a: t.string,
+      b: t.optional(t.number),
+      c: t.nullable(t.array(t.or(t.string, t.number))),
+    }),
+    t.strictObject({ a: t.string }),
+    Tree,
+    Shape,
+    t.array(Shape),
+    t.record(t.enum("x", "y"), t.number),
+    t.record(t.boolean),
+    t.map(t.string, t.number),
+    t.set(
+      t.number.refine(
+        (n) => n > 0,
+        (n) => `${n} is not positive`
+      )
+    ),
+    t.tuple(t.string, t.tuple(t.number, t.boolean)),
+    t.and(t.object({ a: t.number }), t.object({ b: t.string })),
+    t.or(t.object({ a: t.number }), t.tuple(t.string), t.undefined),
+    t.literal(null),
+    t.enum("x", "y"),
+    t.number.int().gt(0).multipleOf(3),
+    t.array(t.number.nonnegative().lt(2)),
+    t.coerce.number,
+    t.class(Date),
+    t.array(t.never),
+    t.any,
+    t.fromJSONSchema({
+      type: "object",
+      properties: { a: { type: "string", minLength: 2 } },
+      required: ["a"],
+    }),
+  ];
+  const values: unknown[] = [
+    undefined,
+    null,
+    1,
+    "1",
+    "ab",
+    [],
+    [1, "a", null],
+    [, 1],
+    { a: "x" },
+    { a: 1, b: "2", c: [true] },
+    { a: "x", extra: 1 },
+    { value: 1, children: [{ value: 2, children: [{ value: "3" }] }] },
+    { kind: "circle", radius: 1 },
+    { kind: "square", radius: 1 },
+    { kind: "triangle" },
+    [{ kind: "circle", radius: "1" }, { kind: "oval" }],
+    { x: 1, y: "2", z: 3 },
+    { a: true, b: 1 },
+    new Map<string, unknown>([
+      ["a", 1],
+      ["b", "2"],
+    ]),
+    new Set([1, -2, 3]),
+    ["a", [1, true]],
+    ["a", [1, "t"]],
+    ["a"],
+    { a: 1, b: "s" },
+    new Date(),
+  ];
+
+  it("should accept and reject the same values as interpreted checkers", () => {
+    for (const checker of checkers) {
+      const compiled = t.compile(checker);
+      for (const value of values) {
+        expect(compiled.check(value)).toBe(checker.check(value));
+      }
+    }
+  });
+
+  it("should report the same errors as interpreted checkers", () => {
+    for (const checker of checkers) {
+      const compiled = t.compile(checker);
+      for (const value of values) {
+        const expected = t.parse(checker, value);
+        const actual = t.parse(compiled, value);
+        expect(
+          actual.errors?.map((e) => [e.field, e.message, e.code, e.params])
+        ).toEqual(
+          expected.errors?.map((e) => [e.field, e.message, e.code, e.params])
+        );
+        if (expected.success) {
+          expect(actual.value).toEqual(expected.value);
+        }
+      }
+    }
+  });
+
+  it("should not expose how checkers are compiled", () => {
+    const members = [
+      "def",
+      "check",
+      "toJSONSchema",
+      "is",
+      "sanitize",
+      "toTypeString",
+      "withJSONSchema",
+      "refine",
+      "refineAsync",
+      "transform",
+    ];
+    expect(Object.keys(t.string).sort()).toEqual([...members].sort());
+    const Positive = t.number.refine((n) => n > 0);
+    expect(Positive).not.toHaveProperty("compile");
+    expect(Positive).not.toHaveProperty("unrefined");
+    expect(t.compile(Positive)).not.toHaveProperty("compile");
+    expect(Object.keys(t.object({}))).not.toContain("compile");
+  });
+
+  it("should keep the properties of particular checkers", () => {
+    const Circle = t.compile(
+      t.object({ type: t.literal("circle"), radius: t.number })
+    );
+    const Square = t.object({ type: t.literal("square"), size: t.number });
+    expect(Circle.shape.radius).toBe(t.number);
+    expect(t.compile(t.literal("a")).value).toBe("a");
+    expect(t.compile(t.number.int()).checks).toEqual([{ kind: "int" }]);
+
+    const Shape = t.discriminatedUnion("type", Circle, Square);
+    expect(Shape.check({ type: "circle", radius: 1 })).toBe(true);
+    expect(Shape.check({ type: "circle", size: 1 })).toBe(false);
+    expect(Circle.pick("radius").check({ radius: 1 })).toBe(true);
+  });
+
+  it("should report errors relative to enclosing checkers", () => {
+    const Point = t.compile(t.object({ x: t.number, y: t.number }));
+    const Line = t.object({ points: t.array(Point) });
+    const result = t.parse(Line, { points: [{ x: 1, y: 2 }, { x: "1" }] });
+    expect(result.errors?.map((e) => [e.field, e.message])).toEqual([
+      [["points", 1, "x"], "expected number"],
+      [["points", 1, "y"], "expected number"],
+    ]);
+
+    const tree = t.parse(t.compile(t.array(Tree)), [
+      { value: 1, children: [{ value: 2, children: "none" }] },
+    ]);
+    expect(tree.errors?.map((e) => e.field)).toEqual([
+      [0, "children", 0, "children"],
+    ]);
+  });
+
+  it("should call refinements and nominal predicates", () => {
+    const calls: unknown[] = [];
+    const Even = t.nominal((value): value is number => {
+      calls.push(value);
+      return typeof value === "number" && value % 2 === 0;
+    }, "Even");
+    const Small = Even.refine((n) => n < 10, "too big");
+    const compiled = t.compile(t.array(Small));
+    expect(compiled.check([2, 4])).toBe(true);
+    expect(calls).toEqual([2, 4]);
+    expect(t.parse(compiled, [2, 3]).errors?.[0]?.message).toBe(
+      "expected Even"
+    );
+    expect(t.parse(compiled, [2, 12]).errors?.[0]?.message).toBe("too big");
+  });
+
+  it("should keep the rest of the checker's behavior", () => {
+    const User = t.object({
+      name: t.string.transform((name) => name.trim()),
+      role: t.optional(t.enum("admin", "user"), { default: "user" }),
+    });
+    const compiled = t.compile(User);
+    expect(compiled.toTypeString()).toBe(User.toTypeString());
+    expect(t.toJSONSchema(compiled)).toEqual(t.toJSONSchema(User));
+    expect(t.parse(compiled, { name: " a ", extra: 1 }).unwrap()).toEqual({
+      name: "a",
+      role: "user",
+    });
+    expect(() => compiled.sanitize({ name: 1 } as any)).toThrow();
+    expect(
+      t.parse(
+        compiled.refine((user) => user.name !== "root", "reserved"),
+        { name: "root" }
+      ).errors?.[0]?.message
+    ).toBe("reserved");
+  });
+});
+
+describe("is", () => {
+  const Order = t.object({
+    id: t.number,
+    status: t.or(t.literal("open"), t.literal("closed")),
+    customer: t.object({ name: t.string, email: t.nullable(t.string) }),
+    lines: t.array(
+      t.object({
+        sku: t.string,
+        quantity: t.number.refine((n) => n > 0, "expected positive quantity"),
+        tags: t.record(t.boolean),
+      })
+    ),
+  });
+  const orders = t.array(Order);
+
+  function makeOrders(count: number, invalidEvery: number) {
+    return Array.from({ length: count }, (_, i) => ({
+      id: i,
+      status: i % invalidEvery === invalidEvery - 1 ? "pending" : "open",
+      customer: { name: `customer ${i}`, email: null },
+      lines: Array.from({ length: 5 }, (_, j) => ({
+        sku: `sku-${j}`,
+        quantity: j + 1,
+        tags: { gift: j % 2 === 0 },
+      })),
+    }));
+  }
+
+  it("should agree with check", () => {
+    const values = [
+      ...makeOrders(3, 2),
+      null,
+      { id: 1 },
+      { ...makeOrders(1, 2)[0], lines: [{ sku: 1 }] },
+    ];
+    for (const value of values) {
+      expect(Order.is(value)).toBe(Order.check(value));
+    }
+    expect(t.string.is("a")).toBe(true);
+    expect(t.never.is(undefined)).toBe(false);
+    expect(t.coerce.number.is("1")).toBe(true);
+  });
+
+  it("should not report errors, even while parsing", () => {
+    const Name = t.string.refine(
+      (name) => !t.literal("root").is(name),
+      "reserved name"
+    );
+    expect(
+      t
+        .parse(t.object({ name: Name }), { name: "root" })
+        .errors?.map((e) => e.message)
+    ).toEqual(["reserved name"]);
+  });
+
+  it("should not format messages on the failure path", () => {
+    const status = t.or(t.literal("open"), t.literal("closed"));
+    expect(status.is("pending")).toBe(false);
+    const spy = jest.spyOn(status, "toTypeString");
+    try {
+      for (let i = 0; i < 100; i++) {
+        expect(status.is("pending")).toBe(false);
+      }
+      expect(spy).not.toHaveBeenCalled();
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("should not construct errors on the failure path", () => {
+    const data = makeOrders(200, 10);
+    expect(orders.is(data)).toBe(false);
+    const constructed = jest.fn();
+    // ParseError's super() call goes through its prototype, so swapping
+    // the prototype observes every construction
+    class CountingError extends Error {
+      constructor(message?: string) {
+        super(message);
+        constructed();
+      }
+    }
+    Object.setPrototypeOf(t.ParseError, CountingError);
+    try {
+      expect(orders.is(data)).toBe(false);
+      expect(Order.is({ ...data[9], lines: [{ sku: 1 }] })).toBe(false);
+      expect(constructed).not.toHaveBeenCalled();
+      expect(t.parse(orders, data).success).toBe(false);
+      expect(constructed).toHaveBeenCalled();
+    } finally {
+      Object.setPrototypeOf(t.ParseError, Error);
+    }
+  });
+
+  it("should parse and fall back without code generation", () => {
+    const Point = t.object({ x: t.number, y: t.or(t.number, t.string) });
+    const original = globalThis.Function;
+    globalThis.Function = function () {
+      throw new EvalError("Code generation from strings disallowed");
+    } as any;
+    try {
+      expect(t.parse(Point, { x: 1, y: "2", z: 3 }).unwrap()).toEqual({
+        x: 1,
+        y: "2",
+      });
+      expect(Point.is({ x: 1, y: 2 })).toBe(true);
+      expect(Point.is({ x: 1, y: null })).toBe(false);
+    } finally {
+      globalThis.Function = original;
+    }
+  });
+
+  it("should agree with parse on large nested inputs", () => {
+    for (const data of [makeOrders(2000, Infinity), makeOrders(2000, 10)]) {
+      expect(orders.is(data)).toBe(t.parse(orders, data).success);
+      // the second call reuses the compiled checker
+      expect(orders.is(data)).toBe(t.parse(orders, data).success);
+    }
+  });
+});
+
+describe("parse options", () => {
+  const Row = t.object({ id: t.number, email: t.string });
+  const rows = Array.from({ length: 10 }, (_, i) =>
+    i % 3 === 0 ? { id: String(i), email: null } : { id: i, email: "a@b.c" }
+  );
+
+  it("should stop arrays at the first bad element by default", () => {
+    const result = t.parse(t.array(Row), rows);
+    expect(result.errors?.map((e) => e.field)).toEqual([
+      [0, "id"],
+      [0, "email"],
+    ]);
+  });
+
+  it("should collect every error with abortEarly: false", () => {
+    const result = t.parse(t.array(Row), rows, { abortEarly: false });
+    expect(result.errors?.map((e) => e.field)).toEqual([
+      [0, "id"],
+      [0, "email"],
+      [3, "id"],
+      [3, "email"],
+      [6, "id"],
+      [6, "email"],
+      [9, "id"],
+      [9, "email"],
+    ]);
+
+    const map = t.map(t.string, t.number);
+    expect(
+      t
+        .parse(
+          map,
+          new Map<unknown, unknown>([
+            [1, 1],
+            ["a", "b"],
+          ]),
+          { abortEarly: false }
+        )
+        .errors?.map((e) => e.field)
+    ).toEqual([
+      [0, "key"],
+      [1, "value"],
+    ]);
+    expect(
+      t
+        .parse(t.set(t.number), new Set([1, "a", 2, "b"]), {
+          abortEarly: false,
+        })
+        .errors?.map((e) => e.field)
+    ).toEqual([[1], [3]]);
+  });
+
+  it("should stop at the first error with abortEarly: true", () => {
+    const options = { abortEarly: true };
+    expect(
+      t
+        .parse(Row, { id: "1", email: null }, options)
+        .errors?.map((e) => e.field)
+    ).toEqual([["id"]]);
+    expect(
+      t
+        .parse(t.strictObject({ a: t.number }), { a: 1, b: 2, c: 3 }, options)
+        .errors?.map((e) => e.field)
+    ).toEqual([["b"]]);
+    expect(
+      t
+        .parse(t.tuple(t.string, t.string), [1, 2], options)
+        .errors?.map((e) => e.field)
+    ).toEqual([[0]]);
+    expect(
+      t
+        .parse(t.record(t.number), { a: "1", b: "2" }, options)
+        .errors?.map((e) => e.field)
+    ).toEqual([["a"]]);
+    expect(
+      t
+        .parse(t.and(Row, t.object({ name: t.string })), {}, options)
+        .errors?.map((e) => e.field)
+    ).toEqual([["id"]]);
+  });
+
+  it("should run every refinement of a value of the right type", () => {
+    const Password = t.string
+      .refine((s) => s.length >= 8, "too short")
+      .refine((s) => /[0-9]/.test(s), "needs a digit")
+      .refine((s) => /[A-Z]/.test(s), "needs an uppercase letter");
+
+    expect(t.parse(Password, "abc").errors?.map((e) => e.message)).toEqual([
+      "too short",
+    ]);
+    expect(
+      t
+        .parse(Password, "abc", { abortEarly: false })
+        .errors?.map((e) => e.message)
+    ).toEqual(["too short", "needs a digit", "needs an uppercase letter"]);
+    expect(
+      t
+        .parse(Password, "abcdefgh1", { abortEarly: false })
+        .errors?.map((e) => e.message)
+    ).toEqual(["needs an uppercase letter"]);
+    expect(
+      t.parse(Password, 1, { abortEarly: false }).errors?.map((e) => e.message)
+    ).toEqual(["expected string"]);
+  });
+
+  it("should cap the number of errors", () => {
+    const numbers = t.array(t.number);
+    const values = Array.from({ length: 150 }, (_, i) => String(i));
+    const result = t.parse(numbers, values, {
+      abortEarly: false,
+      maxErrors: 100,
+    });
+    expect(result.errors).toHaveLength(101);
+    expect(result.errors?.[99]?.field).toEqual([99]);
+    expect(result.errors?.[100]?.field).toEqual([]);
+    expect(result.errors?.[100]?.message).toBe(
+      "more than 100 errors, the rest were not checked"
+    );
+
+    expect(
+      t.parse(Row, {}, { maxErrors: 1 }).errors?.map((e) => e.message)
+    ).toEqual([
+      "expected number",
+      "more than 1 error, the rest were not checked",
+    ]);
+    expect(t.parse(Row, {}, { maxErrors: 2 }).errors).toHaveLength(2);
+    expect(
+      t.parseJSON(numbers, '["a", "b", "c"]', {
+        abortEarly: false,
+        maxErrors: 2,
+      }).errors?.[2]?.message
+    ).toBe("more than 2 errors, the rest were not checked");
+    expect(() => t.parse(Row, {}, { maxErrors: 0 })).toThrow();
+  });
+
+  it("should stop checking once there are too many errors", () => {
+    let checked = 0;
+    const Counted = t.number.refine(() => {
+      checked++;
+      return false;
+    }, "rejected");
+    const rows = t.array(t.object({ id: Counted }));
+    const values = Array.from({ length: 1000 }, (_, i) => ({ id: i }));
+    for (const checker of [rows, t.compile(rows)]) {
+      checked = 0;
+      const result = t.parse(checker, values, {
+        abortEarly: false,
+        maxErrors: 10,
+      });
+      expect(result.errors).toHaveLength(11);
+      expect(checked).toBe(11);
+    }
+
+    // errors discarded by a union do not stop the other branches
+    const Either = t.or(t.object({ a: t.string, b: t.string }), t.object({}));
+    for (const checker of [Either, t.compile(Either)]) {
+      expect(t.parse(checker, {}, { maxErrors: 1 }).success).toBe(true);
+    }
+  });
+
+  it("should be honored by compiled checkers", () => {
+    const Password = t.string
+      .refine((s) => s.length >= 8, "too short")
+      .refine((s) => /[0-9]/.test(s), "needs a digit");
+    const checker = t.object({
+      rows: t.array(Row),
+      pairs: t.tuple(t.string, t.number),
+      tags: t.set(t.string),
+      scores: t.record(t.enum("a", "b"), t.number),
+      both: t.and(t.object({ a: t.number }), t.object({ b: t.number })),
+      password: Password,
+    });
+    const value = {
+      rows,
+      pairs: [1, "a"],
+      tags: new Set([1, "a", 2]),
+      scores: { a: "1", c: 2 },
+      both: {},
+      password: "abc",
+    };
+    const compiled = t.compile(checker);
+    for (const options of [{}, { abortEarly: true }, { abortEarly: false }]) {
+      expect(
+        t
+          .parse(compiled, value, options)
+          .errors?.map((e) => [e.field, e.message])
+      ).toEqual(
+        t
+          .parse(checker, value, options)
+          .errors?.map((e) => [e.field, e.message])
+      );
+    }
+  });
+});
+
+describe("async refinements", () => {
+  const taken = new Set(["admin", "root"]);
+  const isAvailable = async (name: string) => {
+    await Promise.resolve();
+    return !taken.has(name);
+  };
+  const Username = t.string.refineAsync(isAvailable, "username is taken");
+
+  it("should run async refinements in parseAsync", async () => {
+    const User = t.object({ name: Username, age: t.number });
+    expect((await t.parseAsync(User, { name: "ann", age: 3 })).value).toEqual({
+      name: "ann",
+      age: 3,
+    });
+
+    const result = await t.parseAsync(User, { name: "root", age: 3 });
+    expect(result.errors?.map((e) => [e.field, e.message])).toEqual([
+      [["name"], "username is taken"],
+    ]);
+
+    const list = await t.parseAsync(t.array(User), [
+      { name: "ann", age: 1 },
+      { name: "admin", age: 2 },
+    ]);
+    expect(list.errors?.map((e) => e.field)).toEqual([[1, "name"]]);
+  });
+
+  it("should check the structure first", async () => {
+    const calls: string[] = [];
+    const Name = t.string.refineAsync(async (name) => {
+      calls.push(name);
+      return true;
+    });
+    const User = t.object({ name: Name, age: t.number });
+    const result = await t.parseAsync(User, { name: "ann", age: "3" });
+    expect(result.errors?.map((e) => e.field)).toEqual([["age"]]);
+    expect(calls).toEqual([]);
+
+    const all = await t.parseAsync(
+      t.object({ name: Username, age: t.number }),
+      { name: "root", age: "3" },
+      { abortEarly: false }
+    );
+    expect(all.errors?.map((e) => e.message)).toEqual([
+      "expected number",
+      "username is taken",
+    ]);
+  });
+
+  it("should run independent refinements concurrently", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const slow = t.number.refineAsync(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return true;
+    });
+    await t.parseAsync(t.array(slow), [1, 2, 3]);
+    expect(maxRunning).toBe(3);
+  });
+
+  it("should run a refinement after those of its parts", async () => {
+    const order: string[] = [];
+    const Field = (name: string, ok: boolean) =>
+      t.string.refineAsync(async () => {
+        await Promise.resolve();
+        order.push(name);
+        return ok;
+      }, `bad ${name}`);
+    const Pair = (ok: boolean) =>
+      t
+        .object({ a: Field("a", true), b: Field("b", ok) })
+        .refineAsync(async () => {
+          order.push("pair");
+          return false;
+        }, "bad pair");
+
+    const result = await t.parseAsync(Pair(true), { a: "", b: "" });
+    expect(order).toEqual(["a", "b", "pair"]);
+    expect(result.errors?.map((e) => e.message)).toEqual(["bad pair"]);
+
+    order.length = 0;
+    const failed = await t.parseAsync(Pair(false), { a: "", b: "" });
+    expect(order).toEqual(["a", "b"]);
+    expect(failed.errors?.map((e) => [e.field, e.message])).toEqual([
+      [["b"], "bad b"],
+    ]);
+  });
+
+  it("should not run refinements of failed union alternatives", async () => {
+    const calls: unknown[] = [];
+    const Tracked = t.object({
+      id: t.number.refineAsync(async (id) => {
+        calls.push(id);
+        return true;
+      }),
+      kind: t.literal("a"),
+    });
+    const Either = t.or(Tracked, t.object({ id: t.number }));
+    for (const checker of [Either, t.compile(Either)]) {
+      calls.length = 0;
+      expect((await t.parseAsync(checker, { id: 1, kind: "b" })).success).toBe(
+        true
+      );
+      expect(calls).toEqual([]);
+      expect((await t.parseAsync(checker, { id: 2, kind: "a" })).success).toBe(
+        true
+      );
+      expect(calls).toEqual([2]);
+    }
+  });
+
+  it("should fall back to later union alternatives when a refinement fails", async () => {
+    const X = t.string.refineAsync(async (s) => s === "x", "not x");
+    const Either = t.or(X, t.string);
+    for (const checker of [Either, t.compile(Either)]) {
+      expect((await t.parseAsync(checker, "y")).value).toBe("y");
+      expect((await t.parseAsync(checker, "x")).value).toBe("x");
+    }
+
+    // the branch that is sanitized is the one whose refinements passed
+    const Labeled = t.or(
+      t.object({ id: X }).transform(() => "first"),
+      t.object({ id: t.string }).transform(() => "second")
+    );
+    expect((await t.parseAsync(Labeled, { id: "x" })).value).toBe("first");
+    expect((await t.parseAsync(Labeled, { id: "y" })).value).toBe("second");
+
+    // when every alternative fails, the union reports it like a synchronous
+    // failure
+    const Both = t.or(
+      X,
+      t.string.refineAsync(async (s) => s === "z", "not z")
+    );
+    const result = await t.parseAsync(t.object({ name: Both }), { name: "y" });
+    expect(result.errors?.map((e) => [e.field, e.code])).toEqual([
+      [["name"], "invalid_union"],
+    ]);
+    expect((await t.parseAsync(Both, "z")).value).toBe("z");
+
+    // without an alternative, the refinement reports its own error
+    expect(
+      (await t.parseAsync(t.nullable(X), "y")).errors?.map((e) => e.message)
+    ).toEqual(["not x"]);
+  });
+
+  it("should transform values after the refinements pass", async () => {
+    const Trimmed = Username.transform((name) => name.toUpperCase());
+    expect((await t.parseAsync(Trimmed, "ann")).value).toBe("ANN");
+    expect((await t.parseAsync(Trimmed, "root")).success).toBe(false);
+  });
+
+  it("should refuse to check async refinements synchronously", () => {
+    expect(() => Username.check("ann")).toThrow(
+      "async refinements can only be checked by parseAsync"
+    );
+    expect(() =>
+      t.parse(t.object({ name: Username }), { name: "a" })
+    ).toThrow();
+    expect(Username.toTypeString()).toBe("string");
+  });
+
+  it("should support cancellation", async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+    const Slow = t.string.refineAsync(
+      (_, signal) =>
+        new Promise<boolean>((resolve) => {
+          received = signal;
+          const timer = setTimeout(() => resolve(true), 1000);
+          signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            resolve(false);
+          });
+        })
+    );
+
+    const result = t.parseAsync(Slow, "a", { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort(new Error("cancelled"));
+    await expect(result).rejects.toThrow("cancelled");
+    expect(received).toBe(controller.signal);
+
+    await expect(
+      t.parseAsync(t.string, "a", { signal: controller.signal })
+    ).rejects.toThrow("cancelled");
+  });
+});
+
+describe("error codes", () => {
+  const codes = (checker: t.TypeChecker<any, any>, value: unknown) =>
+    t.parse(checker, value).errors?.map((e) => [e.field, e.code, e.params]);
+
+  it("should report invalid types", () => {
+    expect(codes(t.string, 1)).toEqual([
+      [[], "invalid_type", { expected: "string", received: "number" }],
+    ]);
+    expect(codes(t.array(t.number), null)).toEqual([
+      [[], "invalid_type", { expected: "array", received: "null" }],
+    ]);
+    expect(codes(t.object({ a: t.number }), { a: [] })).toEqual([
+      [["a"], "invalid_type", { expected: "number", received: "array" }],
+    ]);
+    expect(codes(t.class(Date), "today")).toEqual([
+      [[], "invalid_type", { expected: "Date", received: "string" }],
+    ]);
+    expect(codes(t.coerce.number, true)).toEqual([
+      [[], "invalid_type", { expected: "number", received: "boolean" }],
+    ]);
+    expect(codes(t.coerce.number, "x")).toEqual([
+      [[], "invalid_conversion", { expected: "number", value: "x" }],
+    ]);
+  });
+
+  it("should report invalid literals with the allowed values", () => {
+    expect(codes(t.literal("a"), "b")).toEqual([
+      [[], "invalid_literal", { expected: ["a"], received: "string" }],
+    ]);
+    expect(codes(t.enum("a", "b", 1), true)).toEqual([
+      [[], "invalid_literal", { expected: ["a", "b", 1], received: "boolean" }],
+    ]);
+  });
+
+  it("should report invalid unions", () => {
+    expect(codes(t.or(t.string, t.number), null)).toEqual([
+      [[], "invalid_union", { expected: "string | number", received: "null" }],
+    ]);
+    const Shape = t.discriminatedUnion(
+      "kind",
+      t.object({ kind: t.literal("circle"), radius: t.number }),
+      t.object({ kind: t.literal("square"), size: t.number })
+    );
+    expect(codes(Shape, { kind: "oval" })).toEqual([
+      [
+        ["kind"],
+        "invalid_union_discriminator",
+        { key: "kind", expected: ["circle", "square"] },
+      ],
+    ]);
+  });
+
+  it("should report tuple lengths", () => {
+    const pair = t.tuple(t.string, t.number);
+    expect(codes(pair, ["a"])).toEqual([
+      [[], "too_small", { type: "array", minimum: 2, received: 1 }],
+    ]);
+    expect(codes(pair, ["a", 1, 2])).toEqual([
+      [[], "too_big", { type: "array", maximum: 2, received: 3 }],
+    ]);
+  });
+
+  it("should report unrecognized keys", () => {
+    expect(codes(t.strictObject({ a: t.number }), { a: 1, b: 2 })).toEqual([
+      [["b"], "unrecognized_key", { key: "b" }],
+    ]);
+  });
+
+  it("should report refinements as custom errors", () => {
+    const positive = t.number.refine((n) => n > 0, "not positive");
+    expect(codes(positive, -1)).toEqual([[[], "custom", {}]]);
+    expect(codes(t.compile(positive), -1)).toEqual([[[], "custom", {}]]);
+  });
+
+  it("should report parse failures", () => {
+    expect(
+      t.parseJSON(t.number, "{").errors?.map((e) => [e.code, e.params])
+    ).toEqual([["invalid_json", { offset: 1, line: 1, column: 2 }]]);
+    expect(
+      t
+        .parse(t.array(t.string), [1, 2, 3], {
+          abortEarly: false,
+          maxErrors: 1,
+        })
+        .errors?.map((e) => [e.code, e.params])
+    ).toEqual([
+      ["invalid_type", { expected: "string", received: "number" }],
+      ["too_many_errors", { maxErrors: 1 }],
+    ]);
+  });
+
+  it("should narrow parameters by code", () => {
+    const [error] = t.parse(t.tuple(t.string), []).errors!;
+    if (!error!.hasCode("too_small")) {
+      throw new Error("expected too_small");
+    }
+    const minimum: number = error.params.minimum;
+    expect(minimum).toBe(1);
+    expect(error.hasCode("too_big")).toBe(false);
+  });
+});
+
+describe("message formatting", () => {
+  const Shape = t.discriminatedUnion(
+    "kind",
+    t.object({ kind: t.literal("circle"), radius: t.number }),
+    t.object({ kind: t.literal(1), size: t.number })
+  );
+  const Form = t.strictObject({
+    name: t.string,
+    role: t.enum("admin", "user", null),
+    id: t.or(t.string, t.number),
+    pair: t.tuple(t.string, t.number),
+    page: t.coerce.number,
+    shape: Shape,
+    age: t.number.refine((n) => n >= 18, "must be an adult"),
+  });
+  const invalid = {
+    name: 1,
+    role: "guest",
+    id: null,
+    pair: ["a"],
+    page: "3a",
+    shape: { kind: "oval" },
+    age: 12,
+    extra: true,
+  };
+  const German: Partial<t.MessageCatalog> = {
+    invalid_type: ({ params }) => `${params.expected} erwartet`,
+    unrecognized_key: ({ params }) => `unbekannter Schlüssel ${params.key}`,
+  };
+
+  it("should reproduce the default messages with the English catalog", () => {
+    const expected = t.parse(Form, invalid, { abortEarly: false }).errors;
+    const actual = t.parse(Form, invalid, {
+      abortEarly: false,
+      formatMessage: t.messageFormatter(t.englishMessages),
+    }).errors;
+    expect(expected).toHaveLength(8);
+    expect(actual?.map((e) => e.message)).toEqual(
+      expected?.map((e) => e.message)
+    );
+    expect(
+      t.parse(t.tuple(t.string), ["a", "b"], {
+        formatMessage: t.messageFormatter(t.englishMessages),
+      }).errors?.[0]?.message
+    ).toBe("expected array of length 1");
+  });
+
+  it("should format messages from the code, path and params", () => {
+    const result = t.parse(
+      t.object({ user: t.object({ name: t.string }) }),
+      { user: { name: 1 } },
+      {
+        formatMessage: (error) =>
+          `${error.fieldPath} (${error.code}): ${JSON.stringify(error.params)}`,
+      }
+    );
+    expect(result.errors?.[0]?.message).toBe(
+      'user.name (invalid_type): {"expected":"string","received":"number"}'
+    );
+    expect(() => result.unwrap()).toThrow("user.name (invalid_type)");
+  });
+
+  it("should keep default messages missing from a catalog", () => {
+    const result = t.parse(Form, invalid, {
+      abortEarly: false,
+      formatMessage: t.messageFormatter(German),
+    });
+    expect(result.errors?.map((e) => e.toString())).toEqual([
+      "name: string erwartet",
+      'role: expected "admin" | "user" | null',
+      "id: expected string | number",
+      "pair: expected array of length 2",
+      'page: cannot convert "3a" to number',
+      'shape.kind: unknown tag, expected "circle" | 1',
+      "age: must be an adult",
+      "extra: unbekannter Schlüssel extra",
+    ]);
+  });
+
+  it("should use the global formatter unless overridden", () => {
+    t.setMessageFormatter(t.messageFormatter(German));
+    try {
+      expect(t.parse(t.number, "1").errors?.[0]?.message).toBe(
+        "number erwartet"
+      );
+      expect(
+        t.parse(t.number, "1", { formatMessage: () => "falsch" }).errors?.[0]
+          ?.message
+      ).toBe("falsch");
+    } finally {
+      t.setMessageFormatter(undefined);
+    }
+    expect(t.parse(t.number, "1").errors?.[0]?.message).toBe("expected number");
+  });
+
+  it("should format every kind of failure", async () => {
+    const formatMessage = (error: t.ParseError) => error.code;
+    expect(
+      t.parseJSON(t.number, "{", { formatMessage }).errors?.[0]?.message
+    ).toBe("invalid_json");
+    expect(
+      t
+        .parse(t.array(t.string), [1, 2], {
+          abortEarly: false,
+          maxErrors: 1,
+          formatMessage,
+        })
+        .errors?.map((e) => e.message)
+    ).toEqual(["invalid_type", "too_many_errors"]);
+    const rejected = t.string.refineAsync(async () => false);
+    expect(
+      (await t.parseAsync(rejected, "a", { formatMessage })).errors?.[0]
+        ?.message
+    ).toBe("custom");
+    expect(
+      t.parse(t.compile(t.object({ a: t.number })), {}, { formatMessage })
+        .errors?.[0]?.message
+    ).toBe("invalid_type");
+  });
+
+  it("should keep messages given to refinements", async () => {
+    const formatMessage = (error: t.ParseError) => error.code;
+    const Name = t.object({
+      first: t.string.refine((name) => name.length > 0, "required"),
+      last: t.string.refine((name) => name.length > 0),
+      nick: t.string.refine(
+        (name) => name.length < 3,
+        (name) => `${name} is too long`
+      ),
+    });
+    for (const type of [Name, t.compile(Name)]) {
+      const result = t.parse(
+        type,
+        { first: "", last: "", nick: "abcd" },
+        { abortEarly: false, formatMessage }
+      );
+      expect(result.errors?.map((e) => [e.message, e.explicitMessage])).toEqual(
+        [
+          ["required", true],
+          ["custom", false],
+          ["abcd is too long", true],
+        ]
+      );
+    }
+    const taken = t.string.refineAsync(async () => false, "taken");
+    const result = await t.parseAsync(taken, "a", { formatMessage });
+    expect(result.errors?.map((e) => e.message)).toEqual(["taken"]);
+  });
+});
+
+describe("error reports", () => {
+  const User = t.strictObject({
+    name: t.string,
+    age: t.number,
+    email: t.string,
+    tags: t.array(t.string),
+  });
+  const json = `{
+  "name": 1,
+  "age": "25",
+  "tags": ["a", 2],
+  "admin": true
+}`;
+
+  it("should point at the values of errors in the JSON", () => {
+    const result = t.parseJSON(User, json, { abortEarly: false });
+    expect(t.renderErrors(result.errors!, json)).toBe(
+      [
+        "name: expected string",
+        " --> 2:11",
+        "  |",
+        '2 |   "name": 1,',
+        "  |           ^",
+        "",
+        "age: expected number",
+        " --> 3:10",
+        "  |",
+        '3 |   "age": "25",',
+        "  |          ^^^^",
+        "",
+        "email: expected string",
+        " --> 1:1",
+        "  |",
+        "1 | {",
+        "  | ^",
+        "",
+        "tags[1]: expected string",
+        " --> 4:17",
+        "  |",
+        '4 |   "tags": ["a", 2],',
+        "  |                 ^",
+        "",
+        "admin: unexpected key",
+        " --> 5:3",
+        "  |",
+        '5 |   "admin": true',
+        "  |   ^^^^^^^",
+      ].join("\n")
+    );
+  });
+
+  it("should underline only the first line of a value", () => {
+    const source = '{\n\t"user": {\n\t\t"name": "a"\n\t}\n}';
+    const result = t.parseJSON(t.object({ user: t.string }), source);
+    expect(t.renderErrors(result.errors!, source)).toBe(
+      [
+        "user: expected string",
+        " --> 2:10",
+        "  |",
+        '2 | \t"user": {',
+        "  | \t        ^",
+      ].join("\n")
+    );
+  });
+
+  it("should report where JSON is invalid", () => {
+    for (const [source, offset] of [
+      ['{"a":}', 5],
+      ["[1, 2", 5],
+      ["", 0],
+      ['{"a" 1}', 5],
+      ["[1,]", 3],
+      ["01", 1],
+      ['"\\x"', 2],
+      ['"a\nb"', 2],
+      ['{"a": tru}', 9],
+      ["﻿1", 0],
+    ] as const) {
+      const error = t.parseJSON(t.any, source).errors![0]!;
+      expect(error.hasCode("invalid_json") && error.params.offset).toBe(offset);
+    }
+
+    const source = '{\n  "a": 1,\n  "b": [1 2]\n}';
+    const result = t.parseJSON(t.any, source);
+    expect(result.errors?.[0]?.params).toEqual({
+      offset: 22,
+      line: 3,
+      column: 11,
+    });
+    expect(t.renderErrors(result.errors!, source)).toBe(
+      [
+        "Failed to parse JSON",
+        " --> 3:11",
+        "  |",
+        '3 |   "b": [1 2]',
+        "  |           ^",
+      ].join("\n")
+    );
+  });
+
+  it("should handle deeply nested JSON", () => {
+    const depth = 10000;
+    const unclosed = t.parseJSON(t.any, "[".repeat(depth));
+    expect(unclosed.errors?.map((e) => [e.code, e.params])).toEqual([
+      ["invalid_json", { offset: depth, line: 1, column: depth + 1 }],
+    ]);
+
+    const json = "[".repeat(depth) + "1" + "]".repeat(depth);
+    const result = t.parseJSON(t.string, json);
+    expect(t.renderErrors(result.errors!, json).split("\n")[1]).toBe(
+      " --> 1:1"
+    );
+  });
+
+  it("should render errors without a source as a list", () => {
+    const result = t.parse(User, { name: "a", age: 1, email: "b", tags: [1] });
+    expect(t.renderErrors(result.errors!)).toBe("tags[0]: expected string");
+    const many = t.parseJSON(t.array(t.string), "[1, 2, 3]", {
+      abortEarly: false,
+      maxErrors: 1,
+    });
+    expect(t.renderErrors(many.errors!, "[1, 2, 3]").split("\n\n")[1]).toBe(
+      "more than 1 error, the rest were not checked"
+    );
+  });
+});
+
+describe("error trees", () => {
+  const Signup = t
+    .object({
+      user: t.object({
+        email: t.string.refine((s) => s.includes("@"), "Invalid email"),
+        age: t.number,
+      }),
+      tags: t.array(t.string),
+      password: t.string,
+      confirm: t.string,
+    })
+    .refine((form) => form.password === form.confirm, "passwords differ");
+  const valid = {
+    user: { email: "a@b", age: 1 },
+    tags: [],
+    password: "x",
+    confirm: "x",
+  };
+  const invalid = {
+    user: { email: "a", age: "1" },
+    tags: ["a", 1],
+    password: "x",
+    confirm: "y",
+  };
+
+  it("should nest errors by their paths", () => {
+    const result = t.parse(Signup, invalid, { abortEarly: false });
+    const errors = t.formatErrors(Signup, result.errors!);
+    expect(errors).toEqual({
+      _errors: [],
+      user: {
+        _errors: [],
+        email: { _errors: ["Invalid email"] },
+        age: { _errors: ["expected number"] },
+      },
+      tags: { _errors: [], 1: { _errors: ["expected string"] } },
+    });
+    const email: string[] | undefined = errors.user?.email?._errors;
+    expect(email).toEqual(["Invalid email"]);
+    expect(errors.tags?.[1]?._errors).toEqual(["expected string"]);
+    const mismatched = t.parse(Signup, { ...valid, confirm: "y" });
+    expect(t.formatErrors(Signup, mismatched.errors!)).toEqual({
+      _errors: ["passwords differ"],
+    });
+  });
+
+  it("should group errors by their first key", () => {
+    const result = t.parse(Signup, invalid, { abortEarly: false });
+    const errors = t.flattenErrors(Signup, result.errors!);
+    expect(errors).toEqual({
+      formErrors: [],
+      fieldErrors: {
+        user: ["Invalid email", "expected number"],
+        tags: ["expected string"],
+      },
+    });
+    const user: string[] | undefined = errors.fieldErrors.user;
+    expect(user).toHaveLength(2);
+    // @ts-expect-error keys come from the schema
+    expect(errors.fieldErrors.username).toBeUndefined();
+    const mismatched = t.parse(Signup, { ...valid, confirm: "y" });
+    expect(t.flattenErrors(Signup, mismatched.errors!)).toEqual({
+      formErrors: ["passwords differ"],
+      fieldErrors: {},
+    });
+    expect(t.flattenErrors(Signup, [])).toEqual({
+      formErrors: [],
+      fieldErrors: {},
+    });
+  });
+
+  it("should type the errors of maps and unions", () => {
+    const Prices = t.map(t.string, t.number);
+    const mapErrors = t.formatErrors(
+      Prices,
+      t.parse(Prices, new Map<unknown, unknown>([[1, "a"]]), {
+        abortEarly: false,
+      }).errors!
+    );
+    expect(mapErrors[0]?.key?._errors).toEqual(["expected string"]);
+    expect(mapErrors[0]?.value?._errors).toEqual(["expected number"]);
+
+    const Shape = t.discriminatedUnion(
+      "kind",
+      t.object({ kind: t.literal("circle"), radius: t.number }),
+      t.object({ kind: t.literal("square"), size: t.number })
+    );
+    const shapeErrors = t.formatErrors(
+      Shape,
+      t.parse(Shape, { kind: "square", size: "1" }).errors!
+    );
+    expect(shapeErrors.size?._errors).toEqual(["expected number"]);
+    expect(shapeErrors.radius).toBeUndefined();
+  });
+
+  it("should keep keys that are not plain properties", () => {
+    const Open = t.strictObject({ a: t.number });
+    const value = JSON.parse('{"a": 1, "__proto__": 1, "_errors": 2}');
+    const errors = t.parse(Open, value, { abortEarly: false }).errors!;
+    const formatted = t.formatErrors(Open, errors);
+    expect(Object.getPrototypeOf(formatted)).toBe(Object.prototype);
+    expect(Object.hasOwn(formatted, "__proto__")).toBe(true);
+    expect(formatted._errors).toEqual(["unexpected key"]);
+    const flattened = t.flattenErrors(Open, errors);
+    expect(Object.keys(flattened.fieldErrors)).toEqual([
+      "__proto__",
+      "_errors",
+    ]);
+  });
+});
+
+describe("schema definitions", () => {
+  it("should describe every combinator", () => {
+    const item = t.string;
+    expect(t.number.def).toEqual({
+      kind: "primitive",
+      name: "number",
+      checks: [],
+    });
+    expect(t.coerce.date.def).toEqual({ kind: "coerce", to: "Date" });
+    expect(t.literal(1).def).toEqual({ kind: "literal", value: 1 });
+    expect(t.null.def).toEqual({ kind: "null" });
+    expect(t.undefined.def).toEqual({ kind: "undefined" });
+    expect(t.any.def).toEqual({ kind: "any" });
+    expect(t.unknown.def).toEqual({ kind: "unknown" });
+    expect(t.never.def).toEqual({ kind: "never" });
+    expect(t.array(item).def).toEqual({ kind: "array", item });
+    expect(t.set(item).def).toEqual({ kind: "set", item });
+    expect(t.tuple(item, t.number).def).toEqual({
+      kind: "tuple",
+      items: [item, t.number],
+    });
+    expect(t.map(item, t.number).def).toEqual({
+      kind: "map",
+      key: item,
+      value: t.number,
+    });
+    expect(t.record(t.number).def).toEqual({
+      kind: "record",
+      key: undefined,
+      value: t.number,
+    });
+    expect(t.and(item, t.number).def).toEqual({
+      kind: "intersection",
+      types: [item, t.number],
+    });
+    expect(t.class(Date).def).toEqual({ kind: "class", class: Date });
+    const isEven = (v: unknown): v is number => v === 2;
+    expect(t.nominal(isEven, "Even").def).toEqual({
+      kind: "nominal",
+      name: "Even",
+      check: isEven,
+    });
+  });
+
+  it("should describe objects and unions", () => {
+    const shape = { a: t.string, b: t.optional(t.number) };
+    const def = t.strictObject(shape).def;
+    expect(def).toEqual({ kind: "object", shape, unknownKeys: "reject" });
+    expect(t.object(shape).pick("a").def).toEqual({
+      kind: "object",
+      shape: { a: t.string },
+      unknownKeys: "strip",
+    });
+
+    const union = t.enum("x", "y").def;
+    if (union.kind !== "union") {
+      throw new Error("expected a union");
+    }
+    expect(union.options.map((option) => option.def)).toEqual([
+      { kind: "literal", value: "x" },
+      { kind: "literal", value: "y" },
+    ]);
+
+    const circle = t.object({ kind: t.literal("circle"), r: t.number });
+    expect(t.discriminatedUnion("kind", circle).def).toEqual({
+      kind: "discriminatedUnion",
+      key: "kind",
+      options: [circle],
+    });
+  });
+
+  it("should describe refinements, transforms and lazy checkers", () => {
+    const Positive = t.number.refine((n) => n > 0, "not positive");
+    const Even = Positive.refine((n) => n % 2 === 0);
+    const def = Even.def;
+    if (def.kind !== "refinement") {
+      throw new Error("expected a refinement");
+    }
+    expect(def.message).toBe("invalid value");
+    expect(def.base).toBe(Positive);
+    expect(def.base.def).toMatchObject({
+      kind: "refinement",
+      base: t.number,
+      message: "not positive",
+    });
+
+    const Taken = t.string.refineAsync(async () => true, "taken").def;
+    expect(Taken).toMatchObject({ kind: "asyncRefinement", base: t.string });
+    expect(t.string.transform(Number).def).toMatchObject({
+      kind: "transform",
+      base: t.string,
+      transform: Number,
+    });
+
+    const getter = jest.fn(() => t.number);
+    const Lazy = t.lazy(getter, "Lazy");
+    const lazyDef = Lazy.def;
+    expect(lazyDef).toMatchObject({ kind: "lazy", name: "Lazy" });
+    expect(getter).not.toHaveBeenCalled();
+    expect(lazyDef.kind === "lazy" && lazyDef.resolve()).toBe(t.number);
+  });
+
+  it("should be kept by compiled checkers and JSON Schema overrides", () => {
+    const checker = t.array(t.string);
+    expect(t.compile(checker).def).toBe(checker.def);
+    expect(checker.withJSONSchema({ minItems: 1 }).def).toBe(checker.def);
+  });
+
+  it("should let schemas be walked", () => {
+    // lists the paths of every string in a schema, the way a form generator
+    // would find its text fields
+    const textFields = (
+      checker: t.TypeChecker<any, any>,
+      path: string
+    ): string[] => {
+      const def = checker.def;
+      switch (def.kind) {
+        case "primitive":
+          return def.name === "string" ? [path] : [];
+        case "object":
+          return Object.entries(def.shape).flatMap(([key, type]) =>
+            textFields(
+              t.isOptionalWrapper(type) ? type.optional : type,
+              `${path}.${key}`
+            )
+          );
+        case "array":
+          return textFields(def.item, `${path}[]`);
+        case "refinement":
+        case "transform":
+          return textFields(def.base, path);
+        case "union":
+          return def.options.flatMap((option) => textFields(option, path));
+        default:
+          return [];
+      }
+    };
+    const Profile = t.object({
+      name: t.string.refine((s) => s !== ""),
+      age: t.number,
+      emails: t.array(t.object({ address: t.string, primary: t.boolean })),
+      nickname: t.optional(t.nullable(t.string)),
+    });
+    expect(textFields(Profile, "profile")).toEqual([
+      "profile.name",
+      "profile.emails[].address",
+      "profile.nickname",
+    ]);
+  });
+});
+
+describe("schema visitors", () => {
+  const Role = t.enum("admin", "user");
+  const User = t.object({
+    name: t.string.refine((s) => s.length > 0, "name is required"),
+    age: t.optional(t.number, { default: 0 }),
+    roles: t.array(Role),
+    address: t.nullable(t.object({ city: t.string })),
+    pair: t.tuple(t.number, t.and(t.object({ a: t.string }))),
+  });
+
+  it("should visit every checker", () => {
+    const literals: unknown[] = [];
+    const kinds: string[] = [];
+    t.visit(User, (checker) => {
+      kinds.push(checker.def.kind);
+      if (checker.def.kind === "literal") {
+        literals.push(checker.def.value);
+      }
+    });
+    expect(literals).toEqual(["admin", "user"]);
+    expect(kinds).toEqual([
+      "object",
+      "refinement",
+      "primitive",
+      "primitive",
+      "array",
+      "union",
+      "literal",
+      "literal",
+      "union",
+      "object",
+      "primitive",
+      "null",
+      "tuple",
+      "primitive",
+      "intersection",
+      "object",
+      "primitive",
+    ]);
+  });
+
+  it("should skip the parts of checkers when the visitor returns false", () => {
+    const kinds: string[] = [];
+    t.visit(User, (checker) => {
+      kinds.push(checker.def.kind);
+      return checker.def.kind !== "array" && checker.def.kind !== "tuple";
+    });
+    expect(kinds).not.toContain("literal");
+    expect(kinds.filter((kind) => kind === "primitive")).toHaveLength(3);
+  });
+
+  it("should visit recursive schemas once", () => {
+    type Node = { children: Node[] };
+    const Tree: t.TypeChecker<Node> = t.lazy(
+      () => t.object({ children: t.array(Tree) }),
+      "Tree"
+    );
+    const kinds: string[] = [];
+    t.visit(Tree, (checker) => {
+      kinds.push(checker.def.kind);
+    });
+    expect(kinds).toEqual(["lazy", "object", "array"]);
+  });
+
+  it("should rebuild schemas with replaced checkers", () => {
+    const trimmed = t.mapSchema(User, (checker) =>
+      checker === t.string ? t.string.transform((s) => s.trim()) : checker
+    );
+    const value = {
+      name: " Ann ",
+      roles: ["user"],
+      address: { city: " Paris" },
+      pair: [1, { a: "b " }],
+    };
+    expect(t.parse(trimmed, value).value).toEqual({
+      name: "Ann",
+      age: 0,
+      roles: ["user"],
+      address: { city: "Paris" },
+      pair: [1, { a: "b" }],
+    });
+    expect(t.parse(trimmed, { ...value, name: "" }).errors).toEqual(
+      t.parse(User, { ...value, name: "" }).errors
+    );
+
+    const coerced = t.mapSchema(User, (checker) =>
+      checker === t.number ? t.coerce.number : checker
+    );
+    expect(t.parse(coerced, { ...value, age: "3" }).value).toMatchObject({
+      age: 3,
+    });
+    expect(t.parse(User, { ...value, age: "3" }).success).toBe(false);
+  });
+
+  it("should keep checkers whose parts are unchanged", () => {
+    const Documented = t
+      .array(t.string)
+      .withJSONSchema({ description: "names" });
+    const Outer = t.object({ names: Documented, count: t.number });
+    const mapped = t.mapSchema(Outer, (checker) =>
+      checker === t.number ? t.coerce.number : checker
+    );
+    expect(mapped).not.toBe(Outer);
+    expect(mapped.def.kind === "object" && mapped.def.shape.names).toBe(
+      Documented
+    );
+    expect(t.mapSchema(Outer, (checker) => checker)).toBe(Outer);
+  });
+
+  it("should rebuild recursive and discriminated schemas", () => {
+    type Node = { value: number; children: Node[] };
+    const Tree: t.TypeChecker<Node> = t.lazy(
+      () => t.object({ value: t.number, children: t.array(Tree) }),
+      "Tree"
+    );
+    const mapped = t.mapSchema(Tree, (checker) =>
+      checker === t.number ? t.coerce.number : checker
+    );
+    expect(
+      t.parse(mapped, { value: "1", children: [{ value: "2", children: [] }] })
+        .value
+    ).toEqual({ value: 1, children: [{ value: 2, children: [] }] });
+    expect(mapped.toTypeString()).toBe(
+      "{ value: number | string; children: Tree[]; }"
+    );
+
+    const Shape = t.discriminatedUnion(
+      "kind",
+      t.object({ kind: t.literal("circle"), radius: t.number }),
+      t.object({ kind: t.literal("square"), size: t.number })
+    );
+    const shape = t.mapSchema(Shape, (checker) =>
+      checker === t.number ? t.coerce.number : checker
+    );
+    expect(shape.def.kind).toBe("discriminatedUnion");
+    expect(t.parse(shape, { kind: "square", size: "2" }).value).toEqual({
+      kind: "square",
+      size: 2,
+    });
+  });
+});
+
+describe("generate", () => {
+  const User = t.object({
+    name: t.string,
+    age: t.optional(t.number),
+    role: t.enum("admin", "user"),
+    active: t.boolean,
+    tags: t.array(t.string),
+    location: t.tuple(t.number, t.number),
+    manager: t.nullable(t.object({ id: t.bigint })),
+    settings: t.and(
+      t.object({ theme: t.literal("dark") }),
+      t.object({ volume: t.number })
+    ),
+    scores: t.record(t.enum("math", "art"), t.number),
+    lookup: t.map(t.string, t.set(t.number)),
+    extra: t.unknown,
+  });
+
+  it("should generate values that pass the checker", () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const value = t.generate(User, { seed });
+      expect(User.check(value)).toBe(true);
+    }
+  });
+
+  it("should generate the same values from the same seed", () => {
+    expect(t.generate(User, { seed: 42 })).toEqual(
+      t.generate(User, { seed: 42 })
+    );
+    expect(t.generate(User, { seed: 1 })).not.toEqual(
+      t.generate(User, { seed: 2 })
+    );
+  });
+
+  it("should sometimes omit optional properties", () => {
+    const ages = Array.from({ length: 20 }, (_, seed) =>
+      Object.hasOwn(t.generate(User, { seed }), "age")
+    );
+    expect(ages).toContain(true);
+    expect(ages).toContain(false);
+  });
+
+  it("should generate every option of unions", () => {
+    const roles = new Set(
+      Array.from({ length: 20 }, (_, seed) => t.generate(User, { seed }).role)
+    );
+    expect(roles).toEqual(new Set(["admin", "user"]));
+  });
+
+  it("should stop recursive schemas at maxDepth", () => {
+    type Node = { children: Node[]; next: Node | null };
+    const Tree: t.TypeChecker<Node> = t.lazy(
+      () => t.object({ children: t.array(Tree), next: t.nullable(Tree) }),
+      "Tree"
+    );
+    const depth = (node: Node): number =>
+      1 +
+      Math.max(
+        0,
+        ...node.children.map(depth),
+        ...(node.next ? [depth(node.next)] : [])
+      );
+    for (let seed = 0; seed < 20; seed++) {
+      const value = t.generate(Tree, { seed, maxDepth: 2 });
+      expect(Tree.check(value)).toBe(true);
+      expect(depth(value)).toBeLessThanOrEqual(4);
+    }
+
+    const Endless: t.TypeChecker<any> = t.lazy(
+      () => t.object({ next: Endless }),
+      "Endless"
+    );
+    expect(() => t.generate(Endless, { seed: 0 })).toThrow("maxDepth");
+  });
+
+  it("should generate values passing refinements", () => {
+    const Even = t.number.refine((n) => n % 2 === 0, "odd");
+    for (let seed = 0; seed < 10; seed++) {
+      expect(Even.check(t.generate(Even, { seed }))).toBe(true);
+    }
+    const Impossible = t.string.refine(() => false, "never passes");
+    expect(() => t.generate(Impossible, { seed: 0 })).toThrow(
+      'cannot generate a value passing the refinement "never passes"'
+    );
+  });
+
+  it("should use custom generators", () => {
+    const Email = t.string.refine((s) => /^\w+@\w+\.com$/.test(s), "email");
+    const Id = t.nominal(
+      (v): v is string => typeof v === "string" && v.startsWith("id-"),
+      "Id"
+    );
+    const Account = t.object({ email: Email, id: Id, created: t.class(Date) });
+    expect(() => t.generate(Account, { seed: 0 })).toThrow();
+    const generators = new Map<
+      t.TypeChecker<any, any>,
+      (r: t.Random) => unknown
+    >([
+      [Email, (random) => `${random.pick(["ann", "bob"])}@example.com`],
+      [Id, (random) => `id-${random.int(1, 100)}`],
+      [t.class(Date), () => new Date(0)],
+    ]);
+    expect(() => t.generate(Account, { seed: 0, generators })).toThrow(
+      "cannot generate a value of Date"
+    );
+    const created = Account.shape.created;
+    generators.set(created, () => new Date(0));
+    for (let seed = 0; seed < 10; seed++) {
+      expect(Account.check(t.generate(Account, { seed, generators }))).toBe(
+        true
+      );
+    }
+  });
+
+  it("should generate invalid values", () => {
+    const kinds = new Set<string>();
+    for (let seed = 0; seed < 50; seed++) {
+      const value = t.generateInvalid(User, { seed });
+      const result = t.parse(User, value);
+      expect(result.success).toBe(false);
+      kinds.add(result.errors![0]!.field.length === 0 ? "root" : "nested");
+    }
+    expect(kinds).toEqual(new Set(["root", "nested"]));
+    expect(t.generateInvalid(User, { seed: 7 })).toEqual(
+      t.generateInvalid(User, { seed: 7 })
+    );
+    expect(() => t.generateInvalid(t.unknown, { seed: 0 })).toThrow(
+      "cannot generate a value failing unknown"
+    );
+  });
+});
+
+describe("property", () => {
+  const User = t.object({
+    name: t.string,
+    age: t.optional(t.number),
+    tags: t.array(t.string),
+    manager: t.nullable(t.object({ id: t.bigint })),
+  });
+
+  const failure = (fn: () => void): t.PropertyFailure => {
+    try {
+      fn();
+    } catch (e) {
+      if (e instanceof t.PropertyFailure) {
+        return e;
+      }
+      throw e;
+    }
+    throw new Error("expected the property to fail");
+  };
+
+  it("should run the predicate on generated values", () => {
+    const predicate = jest.fn((user: t.InputOf<typeof User>) =>
+      User.check(user)
+    );
+    t.property(User, predicate, { runs: 25, seed: 1 });
+    expect(predicate).toHaveBeenCalledTimes(25);
+  });
+
+  it("should shrink counterexamples", () => {
+    const shortTags = failure(() =>
+      t.property(User, (user) => user.tags.length < 2, { seed: 5 })
+    );
+    expect(shortTags.counterexample).toEqual({
+      name: "",
+      tags: ["", ""],
+      manager: null,
+    });
+    expect(shortTags.shrinks).toBeGreaterThan(0);
+    expect(User.check(shortTags.original)).toBe(true);
+
+    const young = failure(() =>
+      t.property(User, (user) => !(user.age! >= 10), { seed: 5 })
+    );
+    expect(young.counterexample).toEqual({
+      name: "",
+      age: 10,
+      tags: [],
+      manager: null,
+    });
+
+    const noManager = failure(() =>
+      t.property(User, (user) => user.manager === null, { seed: 5 })
+    );
+    expect(noManager.counterexample).toEqual({
+      name: "",
+      tags: [],
+      manager: { id: 0n },
+    });
+  });
+
+  it("should only shrink to values that pass the checker", () => {
+    const Pair = t.array(t.number).refine((a) => a.length >= 2, "too short");
+    const result = failure(() => t.property(Pair, () => false, { seed: 3 }));
+    expect(result.counterexample).toEqual([0, 0]);
+  });
+
+  it("should report the seed and the error thrown", () => {
+    const result = failure(() =>
+      t.property(
+        User,
+        (user) => {
+          if (user.name.includes("x")) {
+            throw new Error("has x");
+          }
+        },
+        { seed: 5 }
+      )
+    );
+    expect(result.seed).toBe(5);
+    expect(result.cause).toEqual(new Error("has x"));
+    expect(result.message).toBe(
+      'property failed after 5 runs with seed 5 (shrunk 4 times): { name: "x", tags: [], manager: null } threw has x'
+    );
+    const again = failure(() =>
+      t.property(User, (user) => !user.name.includes("x"), { seed: 5 })
+    );
+    expect(again.counterexample).toEqual(result.counterexample);
+  });
+
+  it("should stop shrinking after maxShrinks", () => {
+    const result = failure(() =>
+      t.property(t.array(t.number), (a) => a.length === 0, {
+        seed: 2,
+        maxShrinks: 0,
+      })
+    );
+    expect(result.shrinks).toBe(0);
+    expect(result.counterexample).toBe(result.original);
+  });
+});
+
+describe("number constraints", () => {
+  it("should check each constraint", () => {
+    expect(t.number.int().check(1)).toBe(true);
+    expect(t.number.int().check(1.5)).toBe(false);
+    expect(t.number.finite().check(1e300)).toBe(true);
+    expect(t.number.finite().check(Infinity)).toBe(false);
+    expect(t.number.finite().check(NaN)).toBe(false);
+    expect(t.number.min(1).check(1)).toBe(true);
+    expect(t.number.min(1).check(0.5)).toBe(false);
+    expect(t.number.max(1).check(1)).toBe(true);
+    expect(t.number.max(1).check(1.5)).toBe(false);
+    expect(t.number.gt(1).check(1)).toBe(false);
+    expect(t.number.gt(1).check(1.5)).toBe(true);
+    expect(t.number.lt(1).check(1)).toBe(false);
+    expect(t.number.lt(1).check(0.5)).toBe(true);
+    expect(t.number.positive().check(0)).toBe(false);
+    expect(t.number.nonnegative().check(0)).toBe(true);
+    expect(t.number.nonnegative().check(-1)).toBe(false);
+    expect(t.number.multipleOf(0.5).check(1.5)).toBe(true);
+    expect(t.number.multipleOf(0.5).check(1.25)).toBe(false);
+    expect(t.number.safe().check(Number.MAX_SAFE_INTEGER)).toBe(true);
+    expect(t.number.safe().check(Number.MAX_SAFE_INTEGER + 1)).toBe(false);
+    expect(t.number.safe().check(0.5)).toBe(false);
+    expect(t.number.min(1).check("2")).toBe(false);
+  });
+
+  it("should check multiples of decimal steps", () => {
+    expect(t.number.multipleOf(0.1).check(0.3)).toBe(true);
+    expect(t.number.multipleOf(0.1).check(0.7)).toBe(true);
+    expect(t.number.multipleOf(0.01).check(1.1)).toBe(true);
+    expect(t.number.multipleOf(0.01).check(1.105)).toBe(false);
+    expect(t.number.multipleOf(0.1).check(Infinity)).toBe(false);
+    expect(
+      t.fromJSONSchema({ type: "number", multipleOf: 0.1 }).check(0.3)
+    ).toBe(true);
+    for (const step of [0, -1, Infinity, NaN]) {
+      expect(() => t.number.multipleOf(step)).toThrow(
+        "multipleOf must be a positive finite number"
+      );
+    }
+  });
+
+  it("should leave the checker it constrains unchanged", () => {
+    const Positive = t.number.positive();
+    expect(Positive.int().check(0.5)).toBe(false);
+    expect(Positive.check(0.5)).toBe(true);
+    expect(t.number.check(-1)).toBe(true);
+    expect(t.number.checks).toEqual([]);
+  });
+
+  it("should report specific errors with parameters", () => {
+    const errors = (checker: t.TypeChecker<number>, value: unknown) =>
+      t.parse(checker, value).errors?.map((e) => [e.code, e.message, e.params]);
+    expect(errors(t.number.int(), 1.5)).toEqual([
+      ["not_integer", "expected integer", { received: 1.5 }],
+    ]);
+    expect(errors(t.number.finite(), NaN)).toEqual([
+      ["not_finite", "expected finite number", { received: NaN }],
+    ]);
+    expect(errors(t.number.min(2), 1)).toEqual([
+      [
+        "too_small",
+        "expected number >= 2",
+        { type: "number", minimum: 2, inclusive: true, received: 1 },
+      ],
+    ]);
+    expect(errors(t.number.lt(2), 2)).toEqual([
+      [
+        "too_big",
+        "expected number < 2",
+        { type: "number", maximum: 2, inclusive: false, received: 2 },
+      ],
+    ]);
+    expect(errors(t.number.multipleOf(3), 4)).toEqual([
+      [
+        "not_multiple_of",
+        "expected multiple of 3",
+        { multipleOf: 3, received: 4 },
+      ],
+    ]);
+    expect(errors(t.number.int(), "1")).toEqual([
+      [
+        "invalid_type",
+        "expected number",
+        { expected: "number", received: "string" },
+      ],
+    ]);
+  });
+
+  it("should use custom messages", () => {
+    const Age = t.number.int("whole years").nonnegative("not born yet");
+    expect(t.parse(Age, -1.5).errors?.[0]?.message).toBe("whole years");
+    expect(t.parse(Age, -1).errors?.[0]?.code).toBe("too_small");
+    expect(t.parse(Age, -1).errors?.[0]?.message).toBe("not born yet");
+    expect(t.parse(t.number.safe("too large"), 2 ** 60).errors).toEqual([
+      expect.objectContaining({ code: "too_big", message: "too large" }),
+    ]);
+  });
+
+  it("should stop at the first failing constraint unless abortEarly is false", () => {
+    const Percent = t.number.int().min(0).max(100);
+    expect(t.parse(Percent, -0.5).errors?.map((e) => e.code)).toEqual([
+      "not_integer",
+    ]);
+    expect(
+      t.parse(Percent, -0.5, { abortEarly: false }).errors?.map((e) => e.code)
+    ).toEqual(["not_integer", "too_small"]);
+  });
+
+  it("should format messages from parameters", () => {
+    const formatMessage = t.messageFormatter({
+      ...t.englishMessages,
+      too_small: (error) =>
+        error.params.type === "number"
+          ? `must be at least ${error.params.minimum}`
+          : "too short",
+    });
+    expect(
+      t.parse(t.number.min(5), 1, { formatMessage }).errors?.[0]?.message
+    ).toBe("must be at least 5");
+    expect(
+      t.parse(t.number.multipleOf(2), 1, {
+        formatMessage: t.messageFormatter(t.englishMessages),
+      }).errors?.[0]?.message
+    ).toBe("expected multiple of 2");
+  });
+
+  it("should keep given messages when formatting messages", () => {
+    const formatMessage = t.messageFormatter(t.englishMessages);
+    const Age = t.number.int("whole years").max(150);
+    for (const checker of [Age, t.compile(Age)]) {
+      const fractional = t.parse(checker, 1.5, { formatMessage }).errors?.[0];
+      expect(fractional?.message).toBe("whole years");
+      expect(fractional?.explicitMessage).toBe(true);
+      const old = t.parse(checker, 200, {
+        formatMessage: (e) => `${e.code}!`,
+      }).errors?.[0];
+      expect(old?.message).toBe("too_big!");
+      expect(old?.explicitMessage).toBe(false);
+    }
+  });
+
+  it("should describe constraints in definitions", () => {
+    expect(t.number.int().gt(0, "positive").def).toEqual({
+      kind: "primitive",
+      name: "number",
+      checks: [
+        { kind: "int" },
+        { kind: "min", value: 0, inclusive: false, message: "positive" },
+      ],
+    });
+  });
+
+  const $schema = "https://json-schema.org/draft/2020-12/schema";
+
+  it("should export constraints to JSON Schema", () => {
+    expect(t.toJSONSchema(t.number.int().min(1).min(3).max(9))).toEqual({
+      $schema,
+      type: "integer",
+      minimum: 3,
+      maximum: 9,
+    });
+    expect(t.toJSONSchema(t.number.positive().lt(1).multipleOf(0.25))).toEqual({
+      $schema,
+      type: "number",
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 1,
+      multipleOf: 0.25,
+    });
+    expect(t.number.int().toTypeString()).toBe("number");
+  });
+
+  it("should import constraints from JSON Schema", () => {
+    const Port = t.fromJSONSchema({
+      type: "integer",
+      minimum: 1,
+      exclusiveMaximum: 65536,
+    });
+    expect(Port.check(80)).toBe(true);
+    expect(Port.check(65536)).toBe(false);
+    expect(t.parse(Port, 0).errors?.[0]?.code).toBe("too_small");
+    expect(t.toJSONSchema(Port)).toEqual({
+      $schema,
+      type: "integer",
+      minimum: 1,
+      exclusiveMaximum: 65536,
+    });
+  });
+
+  it("should generate numbers within the constraints", () => {
+    const checkers = [
+      t.number.int().min(10).max(12),
+      t.number.gt(1000).multipleOf(7),
+      t.number.lt(-5000),
+      t.number.safe(),
+    ];
+    for (const checker of checkers) {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(checker.check(t.generate(checker, { seed }))).toBe(true);
+      }
+    }
+  });
+
+  it("should shrink counterexamples toward the bounds", () => {
+    try {
+      t.property(t.number.int().min(10), (n) => n < 10, { seed: 1 });
+      throw new Error("expected a failure");
+    } catch (e) {
+      expect((e as t.PropertyFailure).counterexample).toBe(10);
+    }
+  });
+});
+
 describe("utility functions", () => {
   it("should identify type checkers correctly", () => {
     expect(t.isTypeChecker(t.string)).toBe(true);